@@ -0,0 +1,80 @@
+// Throughput of the hot paths of a fixed-size struct.
+// Usage: npm run bench [-- <path to another build>] to compare implementations.
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+const target = process.argv[2] ?? new URL("../dist/index.js", import.meta.url);
+const { struct, DataType, bitfieldDataType } = await import(
+  target instanceof URL ? target.href : pathToFileURL(resolve(target)).href
+);
+
+const Point = struct({ x: DataType.FLOAT32LE, y: DataType.FLOAT32LE });
+// Only types every build supports, so the cases compare the same work
+const Sample = struct({
+  id: DataType.UINT32LE,
+  flags: DataType.UINT8,
+  temperature: DataType.INT16LE,
+  timestamp: DataType.UINT64LE,
+  position: Point,
+  readings: [DataType.UINT16LE, 4],
+});
+
+const args = {
+  id: 42,
+  flags: 3,
+  temperature: -120,
+  timestamp: 1700000000000n,
+  position: { x: 1.5, y: -2.5 },
+  readings: [1, 2, 3, 4],
+};
+const instance = new Sample(args);
+const payload = Buffer.from(instance.data());
+let sink;
+
+const cases = {
+  construct: () => (sink = new Sample(args)),
+  from: () => (sink = Sample.from(payload)),
+  get: () =>
+    (sink =
+      instance.id +
+      instance.flags +
+      instance.temperature +
+      instance.position.x +
+      instance.readings[2]),
+  set: () => {
+    instance.id = 7;
+    instance.temperature = 21;
+    instance.position.y = 3;
+  },
+  toJson: () => (sink = instance.toJson()),
+};
+
+// Builds without bitfields skip their case
+if (bitfieldDataType) {
+  const Status = struct({
+    flags: bitfieldDataType(DataType.UINT8, 4),
+    mode: bitfieldDataType(DataType.UINT8, 4),
+  });
+  const status = new Status({ flags: 3, mode: 1 });
+  cases.bitfields = () => {
+    status.mode = status.flags;
+    sink = status.mode;
+  };
+}
+
+const duration = 500_000_000n; // ns per case
+console.log(`${"case".padEnd(10)} ${"ops/s".padStart(12)}`);
+for (const [name, fn] of Object.entries(cases)) {
+  for (let i = 0; i < 10_000; i++) fn(); // Warm up
+  let ops = 0;
+  const start = process.hrtime.bigint();
+  let elapsed = 0n;
+  while (elapsed < duration) {
+    for (let i = 0; i < 1_000; i++) fn();
+    ops += 1_000;
+    elapsed = process.hrtime.bigint() - start;
+  }
+  const rate = Math.round((ops * 1e9) / Number(elapsed));
+  console.log(`${name.padEnd(10)} ${rate.toLocaleString("en").padStart(12)}`);
+}
+void sink;
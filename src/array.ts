@@ -0,0 +1,218 @@
+import { hasChecksums } from "./checksum.js";
+import { alloc, toBuffer } from "./memory.js";
+import type { Struct, StructConstructor } from "./structure.js";
+import type { Transformers } from "./transformer.js";
+import type { BufferLike, byte, DomainObject } from "./type.js";
+
+/**
+ * A fixed number of records of struct, stored back to back in one buffer.
+ */
+export class StructArray<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined = undefined,
+> implements Iterable<Struct<T, TR>>
+{
+  protected buffer: Buffer;
+  protected offset: byte;
+  protected count: byte;
+  /**
+   * Whether the buffer was allocated by the array, rather than borrowed by `view`
+   */
+  protected owned: boolean = true;
+
+  /**
+   * Allocates length zeroed records, their checksums sealed.
+   * @param struct
+   * @param length
+   */
+  constructor(
+    public readonly struct: StructConstructor<T, TR>,
+    length: byte = 0,
+  ) {
+    if (struct.dynamic)
+      throw new Error("Dynamic structs have no fixed record size");
+    if (!Number.isInteger(length) || length < 0)
+      throw new RangeError("Invalid array length");
+    this.buffer = alloc(length * struct.size);
+    this.offset = 0;
+    this.count = length;
+    this.seal();
+  }
+
+  /**
+   * Binds an array directly onto the memory of buffer, starting at offset. No copy is made.
+   * @param struct
+   * @param buffer
+   * @param offset
+   * @param length Defaults to as many records as fit; must not exceed them
+   */
+  public static view<
+    T extends DomainObject,
+    TR extends Transformers<T> | undefined = undefined,
+  >(
+    struct: StructConstructor<T, TR>,
+    buffer: BufferLike,
+    offset: byte = 0,
+    length?: byte,
+  ): StructArray<T, TR> {
+    const target = toBuffer(buffer);
+    const out = new StructArray(struct);
+    const fit = Math.floor((target.length - offset) / struct.size);
+    if (offset < 0 || offset > target.length)
+      throw new Error("Invalid buffer size");
+    if (
+      length !== undefined &&
+      (!Number.isInteger(length) || length < 0 || length > fit)
+    )
+      throw new RangeError(
+        `Invalid array length ${length}, expected an integer in [0, ${fit}]`,
+      );
+    out.buffer = target;
+    out.owned = false;
+    out.offset = offset;
+    out.count = length ?? fit;
+    return out;
+  }
+
+  /**
+   * Number of records
+   */
+  public get length(): byte {
+    return this.count;
+  }
+
+  protected at(index: byte): byte {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count)
+      throw new RangeError(`Index ${index} out of range [0, ${this.count})`);
+    return this.offset + index * this.struct.size;
+  }
+
+  /**
+   * Returns a view of the record at index.
+   * @param index
+   */
+  public get(index: byte): Struct<T, TR> {
+    return this.struct.view(this.buffer, this.at(index));
+  }
+
+  /**
+   * Replaces the record at index with an instance of struct, or its arguments.
+   * @param index
+   * @param value
+   */
+  public set(index: byte, value: Struct<T, TR> | Partial<T>): void {
+    this.encode(value).copy(this.buffer, this.at(index), 0, this.struct.size);
+  }
+
+  protected encode(value: Struct<T, TR> | Partial<T>): Buffer {
+    return value instanceof this.struct
+      ? (value as Struct<T, TR>).data()
+      : this.struct.partial(value as Partial<T>).data();
+  }
+
+  /**
+   * Returns an array of the records from start to end (exclusive), sharing its memory.
+   * @param start
+   * @param end
+   */
+  public slice(start: byte = 0, end: byte = this.count): StructArray<T, TR> {
+    const from = Math.max(0, start < 0 ? this.count + start : start);
+    const to = Math.min(this.count, end < 0 ? this.count + end : end);
+    const out = StructArray.view(
+      this.struct,
+      this.buffer,
+      this.offset + Math.min(from, this.count) * this.struct.size,
+      Math.max(0, to - from),
+    );
+    // Slices share the memory, and its ownership, of the array
+    out.owned = this.owned;
+    return out;
+  }
+
+  /**
+   * Recomputes the checksums of the records.
+   */
+  public seal(): void {
+    if (hasChecksums(this.struct)) for (const record of this) record.seal();
+  }
+
+  /**
+   * Returns the records' memory (no copy), their checksums recomputed if the
+   * array owns it.
+   */
+  public data(): Buffer {
+    if (this.owned) this.seal();
+    return this.buffer.subarray(
+      this.offset,
+      this.offset + this.count * this.struct.size,
+    );
+  }
+
+  public toJson(): T[] {
+    const out: T[] = [];
+    for (const record of this) out.push(record.toJson());
+    return out;
+  }
+
+  /**
+   * Iterates the records with a single view, rebound to every record.
+   * Do not keep the yielded instance, `get` a record instead.
+   */
+  public *[Symbol.iterator](): Iterator<Struct<T, TR>> {
+    if (!this.count) return;
+    const cursor = this.struct.view(this.buffer, this.offset);
+    for (let i = 0; i < this.count; i++) yield cursor.rebind(this.at(i));
+  }
+}
+
+/**
+ * A StructArray records can be pushed to. Its buffer is reallocated as it
+ * grows, detaching the views and slices taken before.
+ */
+export class GrowableStructArray<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined = undefined,
+> extends StructArray<T, TR> {
+  /**
+   * @param struct
+   * @param capacity Records allocated upfront
+   */
+  constructor(struct: StructConstructor<T, TR>, capacity: byte = 16) {
+    super(struct, capacity);
+    this.count = 0;
+  }
+
+  /**
+   * Number of records that fit before reallocating
+   */
+  public get capacity(): byte {
+    return Math.floor((this.buffer.length - this.offset) / this.struct.size);
+  }
+
+  /**
+   * Appends instances of struct, or their arguments. Returns the new length.
+   * @param values
+   */
+  public push(...values: (Struct<T, TR> | Partial<T>)[]): byte {
+    // Encoded first, so an invalid value appends nothing
+    const records = values.map((v) => this.encode(v));
+    const length = this.count + values.length;
+    if (length > this.capacity) {
+      const buffer = alloc(
+        Math.max(length, this.capacity * 2) * this.struct.size,
+      );
+      this.buffer.copy(
+        buffer,
+        0,
+        this.offset,
+        this.offset + this.count * this.struct.size,
+      );
+      this.buffer = buffer;
+      this.offset = 0;
+    }
+    const start = this.count;
+    this.count = length;
+    records.forEach((r, i) => r.copy(this.buffer, this.at(start + i)));
+    return length;
+  }
+}
@@ -0,0 +1,316 @@
+import type { Violation } from "./constraint.js";
+import { isVariableType, layout, type Layout } from "./dynamic.js";
+import { read, write } from "./memory.js";
+import type { StructConstructor } from "./structure.js";
+import { joinPath } from "./tracker.js";
+import {
+  DataType,
+  isArrayDataType,
+  isStructDataType,
+  type byte,
+  type DomainObject,
+} from "./type.js";
+
+/**
+ * Built-in algorithms, or a function computing the checksum of the covered bytes:
+ * - `crc8`: CRC-8 (poly 0x07)
+ * - `crc16-ccitt`: CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF)
+ * - `crc16-modbus`: CRC-16/MODBUS (poly 0x8005 reflected, init 0xFFFF)
+ * - `crc32`: CRC-32, as used by zlib and Ethernet
+ * - `sum`: sum of the bytes
+ * - `xor`: XOR of the bytes
+ */
+export type ChecksumAlgorithm =
+  | "crc8"
+  | "crc16-ccitt"
+  | "crc16-modbus"
+  | "crc32"
+  | "sum"
+  | "xor"
+  | ((data: Buffer) => number | bigint);
+
+export interface Checksum<T extends DomainObject = DomainObject> {
+  readonly algorithm: ChecksumAlgorithm;
+  /**
+   * First covered field, or byte offset in the struct. Defaults to the start of the struct
+   */
+  readonly from?: (keyof T & string) | byte;
+  /**
+   * Last covered field, or byte offset (exclusive) in the struct. Defaults to the checksum field (excluded)
+   */
+  readonly to?: (keyof T & string) | byte;
+}
+
+export type Checksums<T extends DomainObject> = Partial<{
+  [K in keyof T]: Checksum<T>;
+}>;
+
+interface Crc {
+  readonly width: byte;
+  readonly poly: byte;
+  readonly init: byte;
+  readonly reflected: boolean;
+  readonly xorout: byte;
+}
+
+const crcs: Record<string, Crc> = {
+  crc8: { width: 8, poly: 0x07, init: 0, reflected: false, xorout: 0 },
+  "crc16-ccitt": {
+    width: 16,
+    poly: 0x1021,
+    init: 0xffff,
+    reflected: false,
+    xorout: 0,
+  },
+  "crc16-modbus": {
+    width: 16,
+    poly: 0xa001,
+    init: 0xffff,
+    reflected: true,
+    xorout: 0,
+  },
+  crc32: {
+    width: 32,
+    poly: 0xedb88320,
+    init: 0xffffffff,
+    reflected: true,
+    xorout: 0xffffffff,
+  },
+};
+
+const tables = new Map<Crc, Uint32Array>();
+
+function crcTable(crc: Crc): Uint32Array {
+  let table = tables.get(crc);
+  if (table) return table;
+  const { width, poly, reflected } = crc;
+  const top = 2 ** (width - 1);
+  table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = reflected ? i : i * 2 ** (width - 8);
+    for (let j = 0; j < 8; j++)
+      if (reflected) c = c & 1 ? (c >>> 1) ^ poly : c >>> 1;
+      else c = c >= top ? ((c - top) * 2) ^ poly : c * 2;
+    table[i] = c >>> 0;
+  }
+  tables.set(crc, table);
+  return table;
+}
+
+function computeCrc(crc: Crc, data: Uint8Array): byte {
+  const table = crcTable(crc);
+  const shift = crc.width - 8;
+  const mask = 2 ** crc.width - 1;
+  let c = crc.init;
+  for (const b of data)
+    c = crc.reflected
+      ? table[(c ^ b) & 0xff]! ^ (c >>> 8)
+      : (table[((c >>> shift) ^ b) & 0xff]! ^ (c << 8)) & mask;
+  return ((c ^ crc.xorout) & mask) >>> 0;
+}
+
+/**
+ * Computes the checksum of data.
+ * @param algorithm
+ * @param data
+ */
+export function checksum(
+  algorithm: ChecksumAlgorithm,
+  data: Uint8Array,
+): number | bigint {
+  if (typeof algorithm === "function")
+    return algorithm(Buffer.from(data.buffer, data.byteOffset, data.length));
+  if (algorithm === "sum") return data.reduce((s, b) => s + b, 0);
+  if (algorithm === "xor") return data.reduce((s, b) => s ^ b, 0);
+  const crc = crcs[algorithm];
+  if (!crc) throw new Error(`Unknown checksum algorithm ${algorithm}`);
+  return computeCrc(crc, data);
+}
+
+/**
+ * Asserts every checksum of struct is stored in an unsigned integer field and
+ * covers a valid range of known fields, not including itself.
+ * @param struct
+ */
+export function assertChecksums(struct: StructConstructor<any, any>): void {
+  const keys = Object.keys(struct.fields);
+  // Layout with empty variable fields, exact for fixed-size structs
+  const offsets: Record<string, byte> = {};
+  for (const [k, field] of Object.entries(struct.fields))
+    offsets[k] = field.offset;
+  const lay: Layout = { offsets, scope: {}, size: struct.size };
+  for (const [k, c] of Object.entries(struct.checksums as Checksums<any>)) {
+    const type = struct.fields[k]?.type;
+    if (typeof type !== "number" || !DataType[type]!.startsWith("UINT"))
+      throw new Error(`Checksum field ${k} must be an unsigned integer`);
+    for (const bound of [c?.from, c?.to])
+      if (typeof bound === "string" && !keys.includes(bound))
+        throw new Error(`Unknown checksum bound ${bound}`);
+    // Byte bounds of dynamic structs depend on their lengths, checked on use
+    if (
+      !struct.dynamic ||
+      (typeof c?.from !== "number" && typeof c?.to !== "number")
+    )
+      range(struct, k, 0, lay);
+  }
+}
+
+const covering = new WeakMap<StructConstructor<any, any>, boolean>();
+
+/**
+ * Whether struct, or one of its nested structs, has checksums.
+ * @param struct
+ */
+export function hasChecksums(struct: StructConstructor<any, any>): boolean {
+  let out = covering.get(struct);
+  if (out !== undefined) return out;
+  out =
+    Object.keys(struct.checksums).length > 0 ||
+    Object.values(struct.fields).some(({ type }) => {
+      const item = isArrayDataType(type) ? type[0] : type;
+      return isStructDataType(item) && hasChecksums(item);
+    });
+  covering.set(struct, out);
+  return out;
+}
+
+/**
+ * Returns the end offset of the field key.
+ */
+function fieldEnd(
+  struct: StructConstructor<any, any>,
+  key: string,
+  { offsets, size }: Layout,
+  offset: byte,
+): byte {
+  const field = struct.fields[key]!;
+  const start = offsets[key]!;
+  if (!isVariableType(field.type)) return start + field.size;
+  // Dynamic structs are packed: a variable field ends where the next one starts
+  const keys = Object.keys(offsets);
+  const next = keys[keys.indexOf(key) + 1];
+  return next === undefined ? offset + size : offsets[next]!;
+}
+
+/**
+ * Returns the start and end offsets covered by the checksum of the field key.
+ */
+function range(
+  struct: StructConstructor<any, any>,
+  key: string,
+  offset: byte,
+  lay: Layout,
+): [start: byte, end: byte] {
+  const { from, to } = struct.checksums[key] as Checksum;
+  const field = struct.fields[key]!;
+  const start =
+    typeof from === "string" ? lay.offsets[from]! : offset + (from ?? 0);
+  const end =
+    typeof to === "string"
+      ? fieldEnd(struct, to, lay, offset)
+      : to === undefined
+        ? lay.offsets[key]!
+        : offset + to;
+  const at = lay.offsets[key]!;
+  if (start < at + field.size && end > at)
+    throw new Error(`Checksum field ${key} covers itself`);
+  if (start < offset || end < start || end > offset + lay.size)
+    throw new Error(`Invalid checksum range of ${key}`);
+  return [start, end];
+}
+
+/**
+ * Returns the checksum of the field key, computed over its range.
+ */
+function expected(
+  struct: StructConstructor<any, any>,
+  key: string,
+  buffer: Buffer,
+  offset: byte,
+  lay: Layout,
+): number | bigint {
+  const { algorithm } = struct.checksums[key] as Checksum;
+  const field = struct.fields[key]!;
+  const [start, end] = range(struct, key, offset, lay);
+  const value = BigInt(checksum(algorithm, buffer.subarray(start, end)));
+  const bits = BigInt(field.size * 8);
+  // Truncated to the field size
+  const out = value & ((1n << bits) - 1n);
+  return field.size > 4 ? out : Number(out);
+}
+
+/**
+ * Calls fn with the offset of every nested struct of struct having checksums.
+ */
+function nested(
+  struct: StructConstructor<any, any>,
+  { offsets }: Layout,
+  fn: (struct: StructConstructor<any, any>, offset: byte, path: string) => void,
+): void {
+  for (const [k, { type }] of Object.entries(struct.fields))
+    if (isStructDataType(type)) {
+      if (hasChecksums(type)) fn(type, offsets[k]!, k);
+    } else if (isArrayDataType(type)) {
+      const [item, length] = type;
+      if (!isStructDataType(item) || item.dynamic || !hasChecksums(item))
+        continue;
+      for (let i = 0; i < length; i++)
+        fn(item, offsets[k]! + i * item.size, `${k}[${i}]`);
+    }
+}
+
+/**
+ * Writes the checksums of struct at offset, nested structs first.
+ * @param struct
+ * @param buffer
+ * @param offset
+ */
+export function sealStruct(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+): void {
+  if (!hasChecksums(struct)) return;
+  const lay = layout(struct, buffer, offset);
+  nested(struct, lay, (s, o) => sealStruct(s, buffer, o));
+  for (const k of Object.keys(struct.checksums)) {
+    const field = struct.fields[k]!;
+    const value = expected(struct, k, buffer, offset, lay);
+    write(field, buffer, value as byte, lay.offsets[k]! - field.offset);
+  }
+}
+
+/**
+ * Collects the checksums of struct at offset, and of its nested structs,
+ * not matching their content.
+ * @param struct
+ * @param buffer
+ * @param offset
+ * @param path
+ * @param out
+ */
+export function verifyChecksums(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+  path: string = "",
+  out: Violation[] = [],
+): Violation[] {
+  if (!hasChecksums(struct)) return out;
+  const lay = layout(struct, buffer, offset);
+  nested(struct, lay, (s, o, p) =>
+    verifyChecksums(s, buffer, o, joinPath(path, p), out),
+  );
+  for (const k of Object.keys(struct.checksums)) {
+    const field = struct.fields[k]!;
+    const value = read(field, buffer, lay.offsets[k]! - field.offset);
+    const sum = expected(struct, k, buffer, offset, lay);
+    if (value != sum)
+      out.push({
+        path: joinPath(path, k),
+        value,
+        message: `checksum mismatch, expected 0x${sum.toString(16)}`,
+      });
+  }
+  return out;
+}
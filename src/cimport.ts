@@ -0,0 +1,707 @@
+import { struct, type StructConstructor } from "./structure.js";
+import {
+  bitfieldDataType,
+  DataType,
+  type byte,
+  type IntegerDataType,
+  type Type,
+} from "./type.js";
+
+export interface CImportOptions {
+  /**
+   * Byte order of multi-byte fields. Defaults to LE
+   */
+  readonly endianness?: "LE" | "BE";
+  /**
+   * Storage of enum fields. Defaults to INT32, the size of a C `int`
+   */
+  readonly enumType?:
+    | "INT8"
+    | "UINT8"
+    | "INT16"
+    | "UINT16"
+    | "INT32"
+    | "UINT32";
+}
+
+export interface CStruct {
+  /**
+   * Typedef name, or tag if the struct has no typedef
+   */
+  readonly name: string;
+  /**
+   * First argument of `struct`
+   */
+  readonly definition: Record<string, Type>;
+  /**
+   * Second argument of `struct`
+   */
+  readonly options: {
+    readonly packed: boolean;
+    readonly pack?: 2 | 4 | 8 | 16;
+  };
+  readonly struct: StructConstructor<any, any>;
+}
+
+type Scalar =
+  | "INT8"
+  | "UINT8"
+  | "INT16"
+  | "UINT16"
+  | "INT32"
+  | "UINT32"
+  | "INT64"
+  | "UINT64"
+  | "FLOAT16"
+  | "FLOAT32"
+  | "FLOAT64";
+
+interface CDeclaration {
+  name: string;
+  readonly fields: CField[];
+  readonly packed: boolean;
+  /**
+   * Value of the enclosing `#pragma pack(n)`, 0 if none
+   */
+  readonly pack: byte;
+}
+
+interface CEnum {
+  name: string;
+  readonly members: [string, byte][];
+}
+
+type CType =
+  | { readonly kind: "scalar"; readonly scalar: Scalar; readonly c: string }
+  | { readonly kind: "struct"; readonly declaration: CDeclaration }
+  | { readonly kind: "enum"; readonly declaration: CEnum };
+
+interface CField {
+  readonly name: string;
+  readonly type: CType;
+  readonly dims: byte[];
+  readonly bits?: byte;
+  /**
+   * Unnamed bitfield
+   */
+  readonly reserved?: true;
+}
+
+interface CModule {
+  readonly structs: CDeclaration[];
+  readonly enums: CEnum[];
+}
+
+interface Token {
+  readonly kind: "word" | "number" | "punct" | "pragma";
+  readonly value: string;
+}
+
+const stdint: Record<string, Scalar> = {
+  int8_t: "INT8",
+  uint8_t: "UINT8",
+  int16_t: "INT16",
+  uint16_t: "UINT16",
+  int32_t: "INT32",
+  uint32_t: "UINT32",
+  int64_t: "INT64",
+  uint64_t: "UINT64",
+  bool: "UINT8",
+  _Bool: "UINT8",
+  _Float16: "FLOAT16",
+  float: "FLOAT32",
+  double: "FLOAT64",
+};
+
+/**
+ * Signed and unsigned storage of the integer keywords. `long` is left out
+ * since its size depends on the data model.
+ */
+const integers: Record<string, [Scalar, Scalar]> = {
+  char: ["INT8", "UINT8"],
+  short: ["INT16", "UINT16"],
+  int: ["INT32", "UINT32"],
+  "long long": ["INT64", "UINT64"],
+};
+
+const keywords = new Set([
+  "signed",
+  "unsigned",
+  "char",
+  "short",
+  "int",
+  "long",
+]);
+
+function lex(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:([A-Za-z_]\w*)|(0[xX][0-9a-fA-F]+|\d+)[uUlL]*|(\S))/y;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) && match[0].trim()) {
+    if (match[1]) tokens.push({ kind: "word", value: match[1] });
+    else if (match[2]) tokens.push({ kind: "number", value: match[2] });
+    else tokens.push({ kind: "punct", value: match[3]! });
+  }
+  return tokens;
+}
+
+/**
+ * Strips comments and preprocessor directives, keeping `#pragma pack` as
+ * tokens and collecting numeric `#define`s into constants.
+ */
+function tokenize(source: string, constants: Map<string, byte>): Token[] {
+  const tokens: Token[] = [];
+  const text = source
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .replace(/\/\/.*$/gm, "")
+    .replace(/\\\r?\n/g, " ");
+  for (const line of text.split(/\r?\n/)) {
+    const directive = /^\s*#\s*(\w+)\s*(.*)$/.exec(line);
+    if (!directive) {
+      tokens.push(...lex(line));
+      continue;
+    }
+    const name = directive[1]!;
+    const rest = directive[2]!.trim();
+    if (name === "pragma" && /^pack\b/.test(rest))
+      tokens.push({ kind: "pragma", value: rest.replace(/\s+/g, "") });
+    else if (name === "define") {
+      const define = /^(\w+)\s+(.+)$/.exec(rest);
+      if (!define) continue;
+      const value = evaluate(lex(define[2]!), constants);
+      if (value !== undefined) constants.set(define[1]!, value);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Evaluates an integer constant expression of literals, constants, `+ - * /`
+ * and parentheses. Returns undefined if it is anything else.
+ */
+function evaluate(
+  tokens: Token[],
+  constants: Map<string, byte>,
+): byte | undefined {
+  let i = 0;
+  const binary = (
+    operand: () => byte | undefined,
+    operators: string,
+  ): byte | undefined => {
+    let v = operand();
+    while (v !== undefined && operators.includes(tokens[i]?.value ?? "_")) {
+      const op = tokens[i++]!.value;
+      const r = operand();
+      if (r === undefined) return undefined;
+      if (op === "+") v += r;
+      else if (op === "-") v -= r;
+      else if (op === "*") v *= r;
+      else v = Math.trunc(v / r);
+    }
+    return v;
+  };
+  const primary = (): byte | undefined => {
+    const t = tokens[i++];
+    if (t?.kind === "number") return Number(t.value);
+    if (t?.kind === "word") return constants.get(t.value);
+    if (t?.value === "-") {
+      const v = primary();
+      return v === undefined ? v : -v;
+    }
+    if (t?.value !== "(") return undefined;
+    const v = sum();
+    return tokens[i++]?.value === ")" ? v : undefined;
+  };
+  const product = () => binary(primary, "*/");
+  const sum = () => binary(product, "+-");
+  const v = sum();
+  return i === tokens.length ? v : undefined;
+}
+
+class Parser {
+  private i = 0;
+  private readonly pack: byte[] = [0];
+  private readonly aliases = new Map<string, CType>();
+  private readonly structTags = new Map<string, CDeclaration>();
+  private readonly enumTags = new Map<string, CEnum>();
+  public readonly structs: CDeclaration[] = [];
+  public readonly enums: CEnum[] = [];
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly constants: Map<string, byte>,
+  ) {}
+
+  private is(value: string): boolean {
+    const t = this.tokens[this.i];
+    return t !== undefined && t.kind !== "pragma" && t.value === value;
+  }
+
+  private isWord(): boolean {
+    return this.tokens[this.i]?.kind === "word";
+  }
+
+  private next(): Token {
+    const t = this.tokens[this.i++];
+    if (!t) throw new Error("Unexpected end of header");
+    return t;
+  }
+
+  private expect(value: string): void {
+    const t = this.next();
+    if (t.value !== value)
+      throw new Error(`Expected ${value}, found ${t.value}`);
+  }
+
+  private word(): string {
+    const t = this.next();
+    if (t.kind !== "word") throw new Error(`Expected a name, found ${t.value}`);
+    return t.value;
+  }
+
+  /**
+   * Consumes the tokens before value at nesting depth 0.
+   */
+  private until(...values: string[]): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+    while (depth > 0 || !values.some((v) => this.is(v))) {
+      const t = this.next();
+      if (t.value === "(" || t.value === "{" || t.value === "[") depth++;
+      else if (t.value === ")" || t.value === "}" || t.value === "]") depth--;
+      tokens.push(t);
+    }
+    return tokens;
+  }
+
+  private expression(what: string, ...until: string[]): byte {
+    const tokens = this.until(...until);
+    const value = evaluate(tokens, this.constants);
+    if (value === undefined)
+      throw new Error(
+        `Unsupported ${what}: ${tokens.map((t) => t.value).join(" ")}`,
+      );
+    return value;
+  }
+
+  /**
+   * Consumes `__attribute__((...))` lists. Returns whether one is packed.
+   */
+  private attributes(): boolean {
+    let packed = false;
+    while (this.is("__attribute__")) {
+      this.next();
+      this.expect("(");
+      this.expect("(");
+      for (const t of this.until(")"))
+        if (t.value === "packed" || t.value === "__packed__") packed = true;
+        else if (t.kind === "word")
+          throw new Error(`Unsupported attribute ${t.value}`);
+      this.expect(")");
+      this.expect(")");
+    }
+    return packed;
+  }
+
+  private pragma(value: string): void {
+    if (value === "pack(pop)") {
+      if (this.pack.length > 1) this.pack.pop();
+      return;
+    }
+    const match = /^pack\((push)?,?(\w*)\)$/.exec(value);
+    const n = match?.[2] ? evaluate(lex(match[2]), this.constants) : 0;
+    if (!match || n === undefined || ![0, 1, 2, 4, 8, 16].includes(n))
+      throw new Error(`Unsupported #pragma ${value}, expected pack(n)`);
+    if (match[1]) this.pack.push(n);
+    else this.pack[this.pack.length - 1] = n;
+  }
+
+  /**
+   * Whether the statement at the cursor declares a struct, union or enum body.
+   */
+  private hasBody(): boolean {
+    for (let j = this.i; j < this.tokens.length; j++) {
+      const t = this.tokens[j]!;
+      if (t.value === "__attribute__") {
+        // Skips the attribute list
+        let depth = 0;
+        while (this.tokens[++j] && (this.tokens[j]!.value !== ")" || --depth))
+          if (this.tokens[j]!.value === "(") depth++;
+      } else if (t.value === "{") return true;
+      else if (t.value === ";" || t.value === "(" || t.kind === "pragma")
+        return false;
+    }
+    return false;
+  }
+
+  /**
+   * Skips a statement, or a function definition.
+   */
+  private skip(): void {
+    let depth = 0;
+    let previous: Token | undefined;
+    for (;;) {
+      const t = this.next();
+      if (t.value === "(" || t.value === "[") depth++;
+      else if (t.value === ")" || t.value === "]") depth--;
+      else if (t.value === "{") {
+        const body = !depth && previous?.value === ")";
+        this.until("}");
+        this.next();
+        if (body) return;
+      } else if (t.value === ";" && !depth) return;
+      previous = t;
+    }
+  }
+
+  public parse(): void {
+    while (this.i < this.tokens.length) {
+      const t = this.tokens[this.i]!;
+      if (t.kind === "pragma") {
+        this.next();
+        this.pragma(t.value);
+      } else if (this.is("typedef")) this.typedef();
+      else if (this.is("extern") && this.tokens[this.i + 2]?.value === "C") {
+        // extern "C" {, its closing brace is skipped below
+        this.until("{");
+        this.next();
+      } else if (this.is("}")) this.next();
+      else if (
+        (this.is("struct") || this.is("enum") || this.is("union")) &&
+        this.hasBody()
+      ) {
+        // Variables declared along with the type are ignored
+        this.type();
+        this.skip();
+      }
+      // Prototypes, variables, static assertions...
+      else this.skip();
+    }
+    this.structs.forEach((s, i) => (s.name ||= `struct${i}`));
+    this.enums.forEach((e, i) => (e.name ||= `enum${i}`));
+  }
+
+  private typedef(): void {
+    this.expect("typedef");
+    const type = this.type();
+    const name = this.word();
+    if (!this.is(";") && !this.is("__attribute__"))
+      throw new Error(`Unsupported typedef ${name}`);
+    this.attributes();
+    this.expect(";");
+    // The first typedef names an anonymous struct or enum
+    if (type.kind !== "scalar" && !type.declaration.name)
+      type.declaration.name = name;
+    this.aliases.set(name, type);
+  }
+
+  /**
+   * Parses a type specifier, declaring the struct or enum if it has a body.
+   */
+  private type(): CType {
+    while (this.is("const") || this.is("volatile")) this.next();
+    if (this.is("union"))
+      throw new Error(
+        "C unions are not supported, declare them with unionDataType",
+      );
+    if (this.is("struct")) {
+      this.next();
+      let packed = this.attributes();
+      const tag = this.isWord() ? this.word() : undefined;
+      packed = this.attributes() || packed;
+      if (!this.is("{")) {
+        const declaration = tag && this.structTags.get(tag);
+        if (!declaration) throw new Error(`Incomplete struct ${tag}`);
+        return { kind: "struct", declaration };
+      }
+      const fields = this.fields();
+      packed = this.attributes() || packed;
+      const pack = this.pack[this.pack.length - 1]!;
+      const declaration: CDeclaration = {
+        name: tag ?? "",
+        fields,
+        packed: packed || pack === 1,
+        pack,
+      };
+      if (tag) this.structTags.set(tag, declaration);
+      this.structs.push(declaration);
+      return { kind: "struct", declaration };
+    }
+    if (this.is("enum")) {
+      this.next();
+      const tag = this.isWord() ? this.word() : undefined;
+      if (!this.is("{")) {
+        const declaration = tag && this.enumTags.get(tag);
+        if (!declaration) throw new Error(`Incomplete enum ${tag}`);
+        return { kind: "enum", declaration };
+      }
+      const declaration: CEnum = { name: tag ?? "", members: this.members() };
+      if (tag) this.enumTags.set(tag, declaration);
+      this.enums.push(declaration);
+      return { kind: "enum", declaration };
+    }
+    const words: string[] = [];
+    while (this.isWord() && keywords.has(this.tokens[this.i]!.value))
+      words.push(this.word());
+    while (this.is("const") || this.is("volatile")) this.next();
+    if (!words.length) {
+      const name = this.word();
+      const scalar = stdint[name];
+      if (scalar) return { kind: "scalar", scalar, c: name };
+      const alias = this.aliases.get(name);
+      if (!alias) throw new Error(`Unknown type ${name}`);
+      return alias;
+    }
+    const c = words.join(" ");
+    const base =
+      words
+        .filter((w) => w !== "signed" && w !== "unsigned")
+        .filter((w, _, all) => w !== "int" || all.length === 1)
+        .join(" ") || "int";
+    const storage = integers[base];
+    if (!storage) throw new Error(`Unsupported type ${c}`);
+    // Plain char holds text, signed char a number
+    const signed =
+      base === "char" ? words.includes("signed") : !words.includes("unsigned");
+    return { kind: "scalar", scalar: storage[signed ? 0 : 1], c };
+  }
+
+  private members(): [string, byte][] {
+    this.expect("{");
+    const members: [string, byte][] = [];
+    let value = -1;
+    while (!this.is("}")) {
+      const member = this.word();
+      if (this.is("=")) {
+        this.next();
+        value = this.expression(`value of ${member}`, ",", "}");
+      } else value++;
+      members.push([member, value]);
+      this.constants.set(member, value);
+      if (this.is(",")) this.next();
+    }
+    this.expect("}");
+    return members;
+  }
+
+  private fields(): CField[] {
+    this.expect("{");
+    const fields: CField[] = [];
+    let unnamed = 0;
+    while (!this.is("}")) {
+      const type = this.type();
+      for (;;) {
+        if (this.is("*")) throw new Error("Pointers are not supported");
+        const reserved = this.is(":");
+        const name = reserved ? `_pad${unnamed++}` : this.word();
+        const dims: byte[] = [];
+        while (this.is("[")) {
+          this.next();
+          const size = this.expression(`array size of ${name}`, "]");
+          this.expect("]");
+          if (size < 1) throw new Error(`Invalid array size of ${name}`);
+          dims.push(size);
+        }
+        let bits: byte | undefined;
+        if (this.is(":")) {
+          this.next();
+          bits = this.expression(`bitfield width of ${name}`, ",", ";");
+          if (dims.length) throw new Error(`Invalid bitfield array ${name}`);
+          if (!bits) throw new Error("Zero-width bitfields are not supported");
+        }
+        // Nested anonymous structs are named after their field
+        if (type.kind === "struct" && !type.declaration.name)
+          type.declaration.name = `${name}_t`;
+        if (fields.some((f) => f.name === name))
+          throw new Error(`Duplicate field ${name}`);
+        fields.push(
+          bits
+            ? { name, type, dims, bits, ...(reserved && { reserved }) }
+            : { name, type, dims },
+        );
+        if (!this.is(",")) break;
+        this.next();
+      }
+      this.attributes();
+      this.expect(";");
+    }
+    this.expect("}");
+    return fields;
+  }
+}
+
+function parse(source: string): CModule {
+  const constants = new Map<string, byte>();
+  const parser = new Parser(tokenize(source, constants), constants);
+  parser.parse();
+  return { structs: parser.structs, enums: parser.enums };
+}
+
+function optionsOf(declaration: CDeclaration): CStruct["options"] {
+  const { packed, pack } = declaration;
+  return packed || !pack
+    ? { packed }
+    : { packed, pack: pack as 2 | 4 | 8 | 16 };
+}
+
+function storageOf(type: CType, opts: CImportOptions): Scalar | undefined {
+  if (type.kind === "scalar") return type.scalar;
+  if (type.kind === "enum") return opts.enumType ?? "INT32";
+  return undefined;
+}
+
+function dataTypeOf(scalar: Scalar, opts: CImportOptions): DataType {
+  if (scalar === "INT8" || scalar === "UINT8") return DataType[scalar];
+  return DataType[`${scalar}${opts.endianness ?? "LE"}`];
+}
+
+function isText(field: CField): boolean {
+  return (
+    field.type.kind === "scalar" &&
+    field.type.c === "char" &&
+    field.dims.length === 1
+  );
+}
+
+/**
+ * Wraps type in an array for every dimension of field, the last one innermost.
+ */
+function dimensioned<T>(
+  field: CField,
+  type: T,
+  wrap: (type: T, count: byte) => T,
+): T {
+  return field.dims.reduceRight(wrap, type);
+}
+
+function build(module: CModule, opts: CImportOptions): CStruct[] {
+  const built = new Map<CDeclaration, StructConstructor<any, any>>();
+  return module.structs.map((declaration) => {
+    const definition: Record<string, Type> = {};
+    for (const field of declaration.fields) {
+      const storage = storageOf(field.type, opts);
+      let type: Type = storage
+        ? dataTypeOf(storage, opts)
+        : built.get((field.type as { declaration: CDeclaration }).declaration)!;
+      if (field.bits)
+        type = bitfieldDataType(type as IntegerDataType, field.bits, {
+          reserved: field.reserved === true,
+        });
+      definition[field.name] = dimensioned<Type>(
+        field,
+        type,
+        (t, count) => [t, count] as Type,
+      );
+    }
+    const options = optionsOf(declaration);
+    const s = struct(definition as any, options);
+    built.set(declaration, s);
+    return { name: declaration.name, definition, options, struct: s };
+  });
+}
+
+/**
+ * Parses the struct declarations of a C header, dependencies first.
+ * Supports stdint and integer types, fixed-size arrays, nested
+ * structs, bitfields, enums, numeric `#define`s, `#pragma pack(n)` and
+ * `__attribute__((packed))`. Plain `char` arrays are strings.
+ * @param source
+ * @param opts
+ */
+export function parseCHeader(
+  source: string,
+  opts: CImportOptions = {},
+): CStruct[] {
+  return build(parse(source), opts);
+}
+
+function pascalCase(name: string): string {
+  return name
+    .replace(/_t$/, "")
+    .split(/_+/)
+    .filter(Boolean)
+    .map((w) => w[0]!.toUpperCase() + w.slice(1))
+    .join("");
+}
+
+function domainTypeOf(field: CField, opts: CImportOptions): string {
+  if (field.reserved) return "undefined";
+  if (isText(field)) return "string";
+  const storage = storageOf(field.type, opts);
+  let type: string;
+  if (field.type.kind === "struct")
+    type = pascalCase(field.type.declaration.name);
+  else if (field.type.kind === "scalar" && /bool/i.test(field.type.c))
+    type = "boolean";
+  else if (storage === "INT64" || storage === "UINT64") type = "bigint";
+  else type = "byte";
+  return type + "[]".repeat(field.dims.length);
+}
+
+function dataTypeSourceOf(field: CField, opts: CImportOptions): string {
+  if (isText(field)) return `charDataType(${field.dims[0]})`;
+  const storage = storageOf(field.type, opts);
+  let type = storage
+    ? `DataType.${DataType[dataTypeOf(storage, opts)]}`
+    : `${pascalCase((field.type as { declaration: CDeclaration }).declaration.name)}Struct`;
+  if (field.bits)
+    type = field.reserved
+      ? `bitfieldDataType(${type}, ${field.bits}, { reserved: true })`
+      : `bitfieldDataType(${type}, ${field.bits})`;
+  return dimensioned(field, type, (t, count) => `[${t}, ${count}]`);
+}
+
+/**
+ * Generates the TypeScript source of the structs of a C header: an enum for
+ * every C enum, and a domain interface and struct for every struct.
+ * @param source
+ * @param opts
+ */
+export function cHeaderToTypeScript(
+  source: string,
+  opts: CImportOptions & {
+    /**
+     * Module to import nbsp from. Defaults to `@zzzeros0/nbsp`
+     */
+    readonly module?: string;
+  } = {},
+): string {
+  const module = parse(source);
+  // Rejects the same definitions as parseCHeader
+  build(module, opts);
+  const imports = new Set(["DataType", "struct", "type byte"]);
+  const lines: string[] = [];
+  for (const e of module.enums) {
+    lines.push(`export enum ${pascalCase(e.name)} {`);
+    for (const [member, value] of e.members)
+      lines.push(`  ${member} = ${value},`);
+    lines.push("}", "");
+  }
+  for (const s of module.structs) {
+    const name = pascalCase(s.name);
+    lines.push(`export interface ${name} {`);
+    for (const field of s.fields)
+      lines.push(
+        `  ${field.name}${field.reserved ? "?" : ""}: ${domainTypeOf(field, opts)};`,
+      );
+    lines.push("}", "", `export const ${name}Struct = struct<${name}>(`, "  {");
+    for (const field of s.fields) {
+      const type = dataTypeSourceOf(field, opts);
+      if (type.startsWith("bitfieldDataType")) imports.add("bitfieldDataType");
+      if (type.startsWith("charDataType")) imports.add("charDataType");
+      lines.push(`    ${field.name}: ${type},`);
+    }
+    const options = Object.entries(optionsOf(s))
+      .map(([k, v]) => `${k}: ${v}`)
+      .join(", ");
+    lines.push("  },", `  { ${options} },`, ");", "");
+  }
+  const specifiers = [...imports].sort((a, b) =>
+    a.replace(/^type /, "").localeCompare(b.replace(/^type /, "")),
+  );
+  return [
+    `import { ${specifiers.join(", ")} } from "${opts.module ?? "@zzzeros0/nbsp"}";`,
+    "",
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,196 @@
+import type { StructConstructor } from "./structure.js";
+import { joinPath } from "./tracker.js";
+import {
+  isArrayDataType,
+  isDynamicArrayDataType,
+  isEnumDataType,
+  isStructDataType,
+  isUnionDataType,
+  type DomainObject,
+  type Type,
+} from "./type.js";
+
+type Scalar = number | bigint;
+/**
+ * A scalar, or the name of an enum member
+ */
+type Value = Scalar | string;
+
+/**
+ * Rules for the value of a field, as stored in the buffer (before output
+ * transformers). The range and allowed values of an array apply to each item.
+ */
+export interface Constraint {
+  readonly min?: Scalar;
+  readonly max?: Scalar;
+  /**
+   * Allowed values
+   */
+  readonly values?: readonly Value[];
+  /**
+   * Required value, like a magic number. Written on construction if the field is not given
+   */
+  readonly const?: Value | readonly Value[];
+  /**
+   * Returns false, or a message, if value is invalid
+   */
+  readonly check?: (value: any) => boolean | string;
+}
+
+export type Constraints<T extends DomainObject> = Partial<{
+  [K in keyof T]: Constraint;
+}>;
+
+export interface Violation {
+  /**
+   * Path of the field, like `people[2].age`
+   */
+  readonly path: string;
+  readonly value: unknown;
+  readonly message: string;
+}
+
+// Compares numbers and bigints by value, and strings only to strings
+function equals(a: Value, b: Value): boolean {
+  if (typeof a === "bigint" && typeof b === "number")
+    return Number.isInteger(b) && a === BigInt(b);
+  if (typeof a === "number" && typeof b === "bigint")
+    return Number.isInteger(a) && BigInt(a) === b;
+  return a === b;
+}
+
+function isValue(value: unknown): value is Value {
+  return (
+    typeof value === "number" ||
+    typeof value === "bigint" ||
+    typeof value === "string"
+  );
+}
+
+function format(value: unknown): string {
+  return Array.isArray(value) ? `[${value.join(", ")}]` : String(value);
+}
+
+function checkItem(
+  constraint: Constraint,
+  path: string,
+  value: Value,
+  out: Violation[],
+): void {
+  const { min, max, values } = constraint;
+  // Enum members have no range
+  const scalar = typeof value === "string" ? undefined : value;
+  if (
+    scalar !== undefined &&
+    ((min !== undefined && scalar < min) || (max !== undefined && scalar > max))
+  )
+    out.push({
+      path,
+      value,
+      message: `value ${value} out of range [${min ?? "-∞"}, ${max ?? "∞"}]`,
+    });
+  if (values && !values.some((v) => equals(v, value)))
+    out.push({
+      path,
+      value,
+      message: `value ${value} is not one of ${values.join(", ")}`,
+    });
+}
+
+/**
+ * Returns the violations of constraint by value.
+ * @param constraint
+ * @param path
+ * @param value
+ */
+export function check(
+  constraint: Constraint | undefined,
+  path: string,
+  value: any,
+): Violation[] {
+  const out: Violation[] = [];
+  if (!constraint || value === undefined) return out;
+  if (Array.isArray(value))
+    value.forEach((v, i) => {
+      if (isValue(v)) checkItem(constraint, `${path}[${i}]`, v, out);
+    });
+  else if (isValue(value)) checkItem(constraint, path, value, out);
+  const expected = constraint.const;
+  if (expected !== undefined) {
+    const valid = Array.isArray(expected)
+      ? Array.isArray(value) &&
+        value.length === expected.length &&
+        expected.every((v: Value, i: number) => equals(v, value[i]))
+      : equals(expected as Value, value);
+    if (!valid)
+      out.push({ path, value, message: `must equal ${format(expected)}` });
+  }
+  if (constraint.check) {
+    const result = constraint.check(value);
+    if (result !== true)
+      out.push({
+        path,
+        value,
+        message: typeof result === "string" ? result : "check failed",
+      });
+  }
+  return out;
+}
+
+/**
+ * Throws the first violation of constraint by value.
+ * @param constraint
+ * @param path
+ * @param value
+ */
+export function assertConstraint(
+  constraint: Constraint | undefined,
+  path: string,
+  value: any,
+): void {
+  const [violation] = check(constraint, path, value);
+  if (violation) throw new Error(`${violation.path}: ${violation.message}`);
+}
+
+function validateType(
+  type: Type,
+  value: any,
+  path: string,
+  out: Violation[],
+): void {
+  if (value === undefined) return;
+  // Read as numbers by leniently
+  if (isEnumDataType(type) && type.unknown === "throw") {
+    if (typeof value === "number")
+      out.push({ path, value, message: `unknown enum value ${value}` });
+  } else if (isStructDataType(type)) validateStruct(type, value, path, out);
+  else if (isArrayDataType(type) || isDynamicArrayDataType(type))
+    (value as any[]).forEach((v, i) =>
+      validateType(type[0] as Type, v, `${path}[${i}]`, out),
+    );
+}
+
+/**
+ * Collects the violations of the constraints of struct, and of its nested
+ * structs, by raw.
+ * @param struct
+ * @param raw The values stored in the buffer
+ * @param path
+ * @param out
+ */
+export function validateStruct(
+  struct: StructConstructor<any, any>,
+  raw: DomainObject,
+  path: string = "",
+  out: Violation[] = [],
+): Violation[] {
+  for (const [k, field] of Object.entries(struct.fields)) {
+    const p = joinPath(path, k);
+    out.push(...check(struct.constraints[k], p, raw[k]));
+    if (isUnionDataType(field.type)) {
+      const member = field.type.members[Number(raw[field.type.tag])];
+      if (member && raw[k]) validateStruct(member, raw[k], p, out);
+    } else validateType(field.type, raw[k], p, out);
+  }
+  return out;
+}
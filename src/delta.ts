@@ -0,0 +1,177 @@
+import { decode, encode, measure, sizeOfValue } from "./dynamic.js";
+import { alloc } from "./memory.js";
+import type { StructConstructor } from "./structure.js";
+import { joinPath } from "./tracker.js";
+import {
+  isArrayDataType,
+  isDynamicArrayDataType,
+  isReservedDataType,
+  isStructDataType,
+  isUnionDataType,
+  type DomainObject,
+  type Type,
+  type UnionDataType,
+} from "./type.js";
+
+export interface Change {
+  /**
+   * Path of the field, like `people[2].age`
+   */
+  readonly path: string;
+  readonly previous: unknown;
+  readonly value: unknown;
+}
+
+/**
+ * Compares numbers and bigints by value, and arrays and objects deeply.
+ */
+function equals(a: any, b: any): boolean {
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((v, i) => equals(v, b[i]));
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((k) => equals(a[k], b[k]))
+    );
+  }
+  return Object.is(a, b);
+}
+
+function memberOf(
+  type: UnionDataType,
+  scope: DomainObject,
+): StructConstructor<any, any> | undefined {
+  return type.members[Number(scope[type.tag])];
+}
+
+/**
+ * Collects the changes of a field of type from previous to value, descending
+ * into nested structs and struct arrays of the same length.
+ */
+export function diffType(
+  type: Type,
+  previous: any,
+  value: any,
+  path: string,
+  out: Change[],
+): void {
+  if (equals(previous, value)) return;
+  if (isStructDataType(type) && previous && value)
+    diffStruct(type, previous, value, path, out);
+  else if (
+    (isArrayDataType(type) || isDynamicArrayDataType(type)) &&
+    isStructDataType(type[0]) &&
+    previous?.length === value?.length
+  )
+    (value as any[]).forEach((v, i) =>
+      diffType(type[0] as Type, previous[i], v, `${path}[${i}]`, out),
+    );
+  else out.push({ path, previous, value });
+}
+
+/**
+ * Collects the fields of struct, and of its nested structs, whose raw values
+ * differ between previous and value. Numeric arrays are compared as a whole.
+ * @param struct
+ * @param previous The values stored in the buffer
+ * @param value The values stored in the buffer
+ * @param path
+ * @param out
+ */
+export function diffStruct(
+  struct: StructConstructor<any, any>,
+  previous: DomainObject,
+  value: DomainObject,
+  path: string = "",
+  out: Change[] = [],
+): Change[] {
+  for (const [k, field] of Object.entries(struct.fields)) {
+    if (isReservedDataType(field.type)) continue;
+    const p = joinPath(path, k);
+    if (isUnionDataType(field.type)) {
+      const member = memberOf(field.type, previous);
+      // Members are compared field by field only if both sides select the same
+      if (member && member === memberOf(field.type, value)) {
+        diffStruct(member, previous[k], value[k], p, out);
+        continue;
+      }
+    }
+    diffType(field.type, previous[k], value[k], p, out);
+  }
+  return out;
+}
+
+/**
+ * Returns the type a field is encoded as in a delta: the active member of unions.
+ */
+function deltaType(type: Type, scope: DomainObject): Type | undefined {
+  return isUnionDataType(type) ? memberOf(type, scope) : type;
+}
+
+/**
+ * Encodes the fields of struct changed from base to value: a bitmap with a bit
+ * per field, in declaration order and starting from the LSB of the first byte,
+ * followed by the raw value of every changed field.
+ * @param struct
+ * @param base The values stored in the buffer
+ * @param value The values stored in the buffer
+ */
+export function encodeDelta(
+  struct: StructConstructor<any, any>,
+  base: DomainObject,
+  value: DomainObject,
+): Buffer {
+  const fields = Object.entries(struct.fields);
+  const changed = fields.map(
+    ([k, field]) =>
+      !isReservedDataType(field.type) && !equals(base[k], value[k]),
+  );
+  let size = Math.ceil(fields.length / 8);
+  fields.forEach(([k, field], i) => {
+    const type = changed[i] && deltaType(field.type, value);
+    if (type) size += sizeOfValue(type, value[k], false);
+  });
+  const out = alloc(size);
+  let o = Math.ceil(fields.length / 8);
+  fields.forEach(([k, field], i) => {
+    if (!changed[i]) return;
+    out[i >> 3] = out[i >> 3]! | (1 << (i & 7));
+    const type = deltaType(field.type, value);
+    if (type) o += encode(type, value[k], out, o, false);
+  });
+  return out;
+}
+
+/**
+ * Applies a delta of struct to base. Returns the new raw values.
+ * @param struct
+ * @param base The values stored in the buffer
+ * @param delta
+ */
+export function decodeDelta(
+  struct: StructConstructor<any, any>,
+  base: DomainObject,
+  delta: Buffer,
+): DomainObject {
+  const fields = Object.entries(struct.fields);
+  const out = { ...base };
+  let o = Math.ceil(fields.length / 8);
+  if (delta.length < o) throw new Error("Invalid delta size");
+  fields.forEach(([k, field], i) => {
+    if (!(delta[i >> 3]! & (1 << (i & 7)))) return;
+    if (isReservedDataType(field.type)) throw new Error("Invalid delta");
+    // Tags and counts precede the fields they select or size
+    const type = deltaType(field.type, out);
+    if (!type) {
+      out[k] = undefined;
+      return;
+    }
+    const size = measure(type, delta, o, out);
+    if (o + size > delta.length) throw new Error("Invalid delta size");
+    out[k] = decode(type, delta, o, false, out);
+    o += size;
+  });
+  if (o !== delta.length) throw new Error("Invalid delta size");
+  return out;
+}
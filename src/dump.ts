@@ -0,0 +1,271 @@
+import type { Violation } from "./constraint.js";
+import { decode, layout, lengthViolation, measure } from "./dynamic.js";
+import { leniently, read, sizeof } from "./memory.js";
+import type { StructConstructor } from "./structure.js";
+import { joinPath } from "./tracker.js";
+import {
+  isArrayDataType,
+  isBitfieldDataType,
+  isEnumDataType,
+  isFlagsDataType,
+  isPaddingDataType,
+  isReservedDataType,
+  isStringDataType,
+  isStructDataType,
+  isUnionDataType,
+  type byte,
+  type DomainObject,
+  type DynamicArrayDataType,
+  type Type,
+} from "./type.js";
+
+export interface DumpOptions {
+  /**
+   * Bytes per line. Defaults to 8
+   */
+  readonly width?: byte;
+  /**
+   * Highlights violations and padding with ANSI colors
+   */
+  readonly colors?: boolean;
+}
+
+/**
+ * A labeled byte range of the dump.
+ */
+interface Entry {
+  readonly path: string;
+  readonly offset: byte;
+  readonly size: byte;
+  readonly value?: unknown;
+  /**
+   * Bitfields only. First bit and width
+   */
+  readonly bits?: readonly [byte, byte];
+  readonly padding?: boolean;
+  /**
+   * Why the value could not be read
+   */
+  readonly error?: string;
+}
+
+function collectType(
+  type: Type,
+  buffer: Buffer,
+  offset: byte,
+  path: string,
+  scope: DomainObject,
+  out: Entry[],
+): void {
+  if (isStructDataType(type)) {
+    collect(type, buffer, offset, path, out);
+    return;
+  }
+  if (isUnionDataType(type)) {
+    const member = type.members[Number(scope[type.tag])];
+    if (member) collect(member, buffer, offset, path, out);
+    else out.push({ path, offset, size: sizeof(type), value: undefined });
+    return;
+  }
+  const size = measure(type, buffer, offset, scope);
+  const item = (type as DynamicArrayDataType)[0];
+  if (!isStructDataType(item)) {
+    out.push({
+      path,
+      offset,
+      size,
+      value: decode(type, buffer, offset, false, scope),
+    });
+    return;
+  }
+  const items: unknown[] = decode(type, buffer, offset, false, scope);
+  let o = offset;
+  if (!isArrayDataType(type)) {
+    // The length prefix, if any
+    const prefix = sizeof(type);
+    if (prefix)
+      out.push({
+        path: `${path}.length`,
+        offset,
+        size: prefix,
+        value: items.length,
+      });
+    o += prefix;
+  }
+  items.forEach((_, i) => {
+    collect(item, buffer, o, `${path}[${i}]`, out);
+    o += measure(item, buffer, o);
+  });
+}
+
+/**
+ * Collects the leaf fields of the struct at offset.
+ */
+function collect(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+  path: string,
+  out: Entry[],
+): void {
+  const { offsets, scope } = layout(struct, buffer, offset);
+  for (const [k, field] of Object.entries(struct.fields)) {
+    const p = joinPath(path, k);
+    const o = offsets[k]!;
+    const type = field.type;
+    if (isPaddingDataType(type))
+      out.push({ path: p, offset: o, size: field.size, padding: true });
+    // Reserved bitfields share their bytes with named ones
+    else if (isReservedDataType(type)) continue;
+    else if (
+      typeof type === "number" ||
+      isBitfieldDataType(type) ||
+      isEnumDataType(type) ||
+      isFlagsDataType(type) ||
+      isStringDataType(type)
+    ) {
+      const entry = {
+        path: p,
+        offset: o,
+        size: field.size,
+        ...(isBitfieldDataType(type) && {
+          bits: [field.bit ?? 0, type.bits] as const,
+        }),
+      };
+      try {
+        out.push({ ...entry, value: read(field, buffer, o - field.offset) });
+      } catch (e) {
+        out.push({ ...entry, error: (e as Error).message });
+      }
+    } else {
+      const from = out.length;
+      try {
+        collectType(type, buffer, o, p, scope, out);
+      } catch (e) {
+        // The field is shown as a whole, with its declared size
+        out.length = from;
+        out.push({
+          path: p,
+          offset: o,
+          size: field.size,
+          error: (e as Error).message,
+        });
+      }
+    }
+  }
+}
+
+function format(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(format).join(", ")}]`;
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "string") return JSON.stringify(value);
+  if (value && typeof value === "object")
+    return `{${Object.entries(value)
+      .map(([k, v]) => `${k}: ${format(v)}`)
+      .join(", ")}}`;
+  return String(value);
+}
+
+function ascii(bytes: Buffer): string {
+  return Array.from(bytes, (b) =>
+    b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".",
+  ).join("");
+}
+
+/**
+ * Returns the violations of the field at path, or of its items.
+ */
+function violationsOf(violations: Violation[], path: string): Violation[] {
+  return violations.filter(
+    (v) => v.path === path || v.path.startsWith(`${path}[`),
+  );
+}
+
+/**
+ * Returns an annotated hex dump of the struct at offset: the offset, bytes and
+ * ASCII of every field, labeled by path and followed by its raw value.
+ * Padding is marked, and fields with violations, or that cannot be read, are
+ * flagged with `!`. A buffer too short for the struct is dumped as a whole.
+ * @param struct
+ * @param buffer
+ * @param offset
+ * @param opts
+ */
+export function dumpStruct(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+  opts: DumpOptions = {},
+): string {
+  const width = opts.width ?? 8;
+  if (!Number.isInteger(width) || width < 1)
+    throw new RangeError(`Invalid width ${width}`);
+  const violations = struct.validate(buffer, offset);
+  const entries: Entry[] = [];
+  const short = lengthViolation(struct, buffer, offset);
+  if (short)
+    entries.push({
+      path: "",
+      offset,
+      size: short.value as byte,
+      error: short.message,
+    });
+  else leniently(() => collect(struct, buffer, offset, "", entries));
+  const size = short ? 0 : layout(struct, buffer, offset).size;
+  const paint = (code: string, line: string) =>
+    opts.colors ? `\x1b[${code}m${line}\x1b[0m` : line;
+  const lines: string[] = [];
+  const print = (entry: Entry) => {
+    // Read errors are reported by validate as well
+    const issues = entry.padding
+      ? []
+      : entry.error !== undefined
+        ? [entry.error]
+        : violationsOf(violations, entry.path).map((v) => v.message);
+    let label = entry.padding
+      ? `${entry.path} (padding)`.trimStart()
+      : entry.path;
+    if (entry.bits) label += ` bits ${entry.bits[0]}+${entry.bits[1]}`;
+    const note = entry.padding
+      ? ""
+      : entry.error !== undefined
+        ? entry.error
+        : [format(entry.value), ...issues].join("  ");
+    for (let i = 0; i < Math.max(entry.size, 1); i += width) {
+      const bytes = buffer.subarray(
+        entry.offset + i,
+        entry.offset + Math.min(i + width, entry.size),
+      );
+      const first = i === 0;
+      const line = [
+        (entry.offset + i - offset).toString(16).padStart(4, "0"),
+        " ",
+        Array.from(bytes, (b) => b.toString(16).padStart(2, "0"))
+          .join(" ")
+          .padEnd(width * 3 - 1),
+        " ",
+        ascii(bytes).padEnd(width),
+        issues.length && first ? " ! " : "   ",
+        first ? `${label}  ${note}`.trimEnd() : "",
+      ].join("");
+      lines.push(
+        issues.length
+          ? paint("31", line)
+          : entry.padding
+            ? paint("2", line)
+            : line,
+      );
+    }
+  };
+  // Position of the end of the previous field, to show alignment padding
+  let end = offset;
+  for (const entry of entries) {
+    if (entry.offset > end)
+      print({ path: "", offset: end, size: entry.offset - end, padding: true });
+    print(entry);
+    end = Math.max(end, entry.offset + entry.size);
+  }
+  if (offset + size > end)
+    print({ path: "", offset: end, size: offset + size - end, padding: true });
+  return lines.join("\n");
+}
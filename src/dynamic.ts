@@ -0,0 +1,404 @@
+import type { Violation } from "./constraint.js";
+import { read, sizeof, write } from "./memory.js";
+import type { StructConstructor } from "./structure.js";
+import { joinPath } from "./tracker.js";
+import { applyTransform } from "./transformer.js";
+import {
+  isArrayDataType,
+  isBitfieldDataType,
+  isEnumDataType,
+  isFlagsDataType,
+  isStringDataType,
+  isDynamicArrayDataType,
+  isReservedDataType,
+  isStructDataType,
+  isUnionDataType,
+  type ArrayDataType,
+  type byte,
+  type DomainObject,
+  type DynamicArrayDataType,
+  type Type,
+  type UnionDataType,
+} from "./type.js";
+
+export interface Layout {
+  /**
+   * Offset of every field, relative to the buffer
+   */
+  readonly offsets: Record<string, byte>;
+  /**
+   * Values of the scalar fields, used to resolve count-from-field lengths
+   */
+  readonly scope: DomainObject;
+  /**
+   * Encoded size of the struct
+   */
+  readonly size: byte;
+}
+
+/**
+ * Whether the encoded size of type depends on its value.
+ * @param type
+ */
+export function isVariableType(type: Type): boolean {
+  if (isDynamicArrayDataType(type)) return true;
+  if (isStructDataType(type)) return type.dynamic;
+  if (isArrayDataType(type)) return isVariableType(type[0]);
+  if (isUnionDataType(type))
+    return Object.values(type.members).some((m) => m.dynamic);
+  return false;
+}
+
+function unionMember(
+  type: UnionDataType,
+  scope: DomainObject,
+): StructConstructor<any, any> | undefined {
+  return type.members[Number(scope[type.tag])];
+}
+
+function isScalarType(type: Type): boolean {
+  return (
+    typeof type === "number" ||
+    isBitfieldDataType(type) ||
+    isEnumDataType(type) ||
+    isFlagsDataType(type) ||
+    isStringDataType(type)
+  );
+}
+
+function readScalar(type: Type, buffer: Buffer, offset: byte) {
+  return read({ type, offset: 0, size: sizeof(type) }, buffer, offset);
+}
+
+function writeScalar(type: Type, value: any, buffer: Buffer, offset: byte) {
+  write({ type, offset: 0, size: sizeof(type) }, buffer, value, offset);
+}
+
+function readLength(
+  type: DynamicArrayDataType,
+  buffer: Buffer,
+  offset: byte,
+  scope: DomainObject,
+): byte {
+  const length = type[1];
+  if (typeof length === "string") return Number(scope[length]);
+  return readScalar(length.prefix, buffer, offset) as byte;
+}
+
+/**
+ * Returns the encoded size of the value of type at offset.
+ * @param type
+ * @param buffer
+ * @param offset
+ * @param scope Sibling values, for count-from-field arrays
+ */
+export function measure(
+  type: Type,
+  buffer: Buffer,
+  offset: byte,
+  scope: DomainObject = {},
+): byte {
+  if (!isVariableType(type)) return sizeof(type);
+  if (isStructDataType(type)) return layout(type, buffer, offset).size;
+  let count: byte, item: Type, o: byte;
+  if (isArrayDataType(type)) {
+    [item, count] = type;
+    o = offset;
+  } else {
+    item = (type as DynamicArrayDataType)[0];
+    count = readLength(type as DynamicArrayDataType, buffer, offset, scope);
+    o = offset + sizeof(type);
+  }
+  if (!isVariableType(item)) return o - offset + count * sizeof(item);
+  for (let i = 0; i < count; i++) o += measure(item, buffer, o);
+  return o - offset;
+}
+
+/**
+ * Resolves the offset of every field of the struct encoded at offset.
+ * Fields keep their packed offsets, shifted by the extra size of the variable
+ * fields before them.
+ * @param struct
+ * @param buffer
+ * @param offset
+ */
+export function layout(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+): Layout {
+  const offsets: Record<string, byte> = {};
+  const scope: DomainObject = {};
+  let extra = 0;
+  for (const [k, field] of Object.entries(struct.fields)) {
+    const base = offset + extra;
+    offsets[k] = base + field.offset;
+    // Enums and strings are neither counts nor tags, and enums may not be readable
+    if (isEnumDataType(field.type) || isStringDataType(field.type)) continue;
+    if (isScalarType(field.type)) scope[k] = read(field, buffer, base);
+    else if (!struct.dynamic) continue;
+    else if (isUnionDataType(field.type)) {
+      // Dynamic unions take the size of their active member
+      const member = unionMember(field.type, scope);
+      if (member) extra += measure(member, buffer, offsets[k]) - field.size;
+    } else if (isVariableType(field.type))
+      extra += measure(field.type, buffer, offsets[k], scope) - field.size;
+  }
+  const size = struct.size + extra;
+  if (offset + size > buffer.length) throw new Error("Invalid buffer size");
+  return { offsets, scope, size };
+}
+
+/**
+ * Returns a violation if the buffer is too short for the struct at offset,
+ * or, for dynamic structs, for the sizes it declares.
+ * @param struct
+ * @param buffer
+ * @param offset
+ */
+export function lengthViolation(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+): Violation | undefined {
+  const available = Math.max(buffer.length - offset, 0);
+  if (offset < 0 || available < struct.size)
+    return {
+      path: "",
+      value: available,
+      message: `expected at least ${struct.size} bytes, got ${available}`,
+    };
+  if (!struct.dynamic) return undefined;
+  try {
+    layout(struct, buffer, offset);
+  } catch {
+    return {
+      path: "",
+      value: available,
+      message: `payload truncated after ${available} bytes`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Reads the value of type at offset into a plain value.
+ * @param type
+ * @param buffer
+ * @param offset
+ * @param transform Apply the output transformers of nested structs
+ * @param scope Sibling values, for count-from-field arrays
+ * @param errors Collects the fields of nested structs that cannot be read, left undefined
+ * @param path
+ */
+export function decode(
+  type: Type,
+  buffer: Buffer,
+  offset: byte,
+  transform: boolean = true,
+  scope: DomainObject = {},
+  errors?: Violation[],
+  path: string = "",
+): any {
+  if (isScalarType(type)) return readScalar(type, buffer, offset);
+  if (isStructDataType(type))
+    return decodeStruct(type, buffer, offset, transform, errors, path);
+  if (isUnionDataType(type)) {
+    const member = unionMember(type, scope);
+    return (
+      member && decodeStruct(member, buffer, offset, transform, errors, path)
+    );
+  }
+  let count: byte, item: Type, o: byte;
+  if (isArrayDataType(type)) {
+    [item, count] = type;
+    o = offset;
+  } else {
+    item = (type as DynamicArrayDataType)[0];
+    count = readLength(type as DynamicArrayDataType, buffer, offset, scope);
+    o = offset + sizeof(type);
+  }
+  const out = [];
+  for (let i = 0; i < count; i++) {
+    out.push(decode(item, buffer, o, transform, {}, errors, `${path}[${i}]`));
+    o += measure(item, buffer, o);
+  }
+  return out;
+}
+
+/**
+ * Reads the struct at offset into a plain object.
+ * @param struct
+ * @param buffer
+ * @param offset
+ * @param transform Apply the output transformers
+ * @param errors Collects the fields that cannot be read, left undefined, rather than throwing
+ * @param path
+ */
+export function decodeStruct<T extends DomainObject>(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+  transform: boolean = true,
+  errors?: Violation[],
+  path: string = "",
+): T {
+  const { offsets, scope } = layout(struct, buffer, offset);
+  const out: DomainObject = {};
+  for (const [k, field] of Object.entries(struct.fields)) {
+    if (isReservedDataType(field.type)) continue;
+    const o = offsets[k]!;
+    const p = joinPath(path, k);
+    let v;
+    try {
+      v = isScalarType(field.type)
+        ? read(field, buffer, o - field.offset)
+        : decode(field.type, buffer, o, transform, scope, errors, p);
+    } catch (e) {
+      if (!errors) throw e;
+      errors.push({ path: p, value: undefined, message: (e as Error).message });
+      continue;
+    }
+    out[k] = transform ? applyTransform(struct.transform[k]?.output, v) : v;
+  }
+  return out as T;
+}
+
+/**
+ * Applies the input transformers and fills the count fields of the arrays
+ * that reference them.
+ */
+function prepare(
+  struct: StructConstructor<any, any>,
+  value: DomainObject,
+  transform: boolean,
+): DomainObject {
+  const out: DomainObject = {};
+  for (const k of Object.keys(struct.fields)) {
+    const v = value[k];
+    out[k] =
+      transform && v !== undefined
+        ? applyTransform(struct.transform[k]?.input, v)
+        : v;
+  }
+  for (const [k, field] of Object.entries(struct.fields))
+    if (isDynamicArrayDataType(field.type)) {
+      const length = field.type[1];
+      if (typeof length === "string") out[length] = out[k]?.length ?? 0;
+    }
+  return out;
+}
+
+function itemsOf(type: Type, value: any): any[] {
+  if (value !== undefined) return value;
+  return isArrayDataType(type) ? new Array(type[1]).fill(undefined) : [];
+}
+
+/**
+ * Returns the size needed to encode value as type.
+ * @param type
+ * @param value
+ * @param transform Apply the input transformers of nested structs
+ */
+export function sizeOfValue(
+  type: Type,
+  value: any,
+  transform: boolean = true,
+): byte {
+  if (!isVariableType(type)) return sizeof(type);
+  if (isStructDataType(type)) {
+    const raw = prepare(type, value ?? {}, transform);
+    let size = type.size;
+    for (const [k, field] of Object.entries(type.fields))
+      if (isUnionDataType(field.type)) {
+        const member = unionMember(field.type, raw);
+        if (member) size += sizeOfValue(member, raw[k], transform) - field.size;
+      } else if (isVariableType(field.type))
+        size += sizeOfValue(field.type, raw[k], transform) - field.size;
+    return size;
+  }
+  const items = itemsOf(type, value);
+  const item = (type as ArrayDataType | DynamicArrayDataType)[0];
+  let size = isArrayDataType(type) ? 0 : sizeof(type);
+  if (isArrayDataType(type) && items.length !== type[1])
+    throw new RangeError("Invalid array length");
+  if (!isVariableType(item)) return size + items.length * sizeof(item);
+  for (const v of items) size += sizeOfValue(item, v, transform);
+  return size;
+}
+
+/**
+ * Writes value as type at offset. Returns the number of bytes written.
+ * @param type
+ * @param value
+ * @param buffer
+ * @param offset
+ * @param transform Apply the input transformers of nested structs
+ */
+export function encode(
+  type: Type,
+  value: any,
+  buffer: Buffer,
+  offset: byte,
+  transform: boolean = true,
+): byte {
+  if (isScalarType(type)) {
+    if (value) writeScalar(type, value, buffer, offset);
+    return sizeof(type);
+  }
+  if (isStructDataType(type))
+    return encodeStruct(type, value ?? {}, buffer, offset, transform);
+  if (value === undefined && !isVariableType(type)) return sizeof(type);
+  const items = itemsOf(type, value);
+  const item = (type as ArrayDataType | DynamicArrayDataType)[0];
+  let o = offset;
+  if (isArrayDataType(type)) {
+    if (items.length !== type[1]) throw new RangeError("Invalid array length");
+  } else {
+    const length = (type as DynamicArrayDataType)[1];
+    if (typeof length !== "string")
+      writeScalar(length.prefix, items.length, buffer, o);
+    o += sizeof(type);
+  }
+  for (const v of items) o += encode(item, v, buffer, o, transform);
+  return o - offset;
+}
+
+/**
+ * Writes the struct at offset. Returns the number of bytes written.
+ * @param struct
+ * @param value
+ * @param buffer
+ * @param offset
+ * @param transform Apply the input transformers
+ */
+export function encodeStruct(
+  struct: StructConstructor<any, any>,
+  value: DomainObject,
+  buffer: Buffer,
+  offset: byte,
+  transform: boolean = true,
+): byte {
+  const raw = prepare(struct, value, transform);
+  let extra = 0;
+  for (const [k, field] of Object.entries(struct.fields)) {
+    const base = offset + extra;
+    const v = raw[k];
+    if (isScalarType(field.type)) {
+      if (v) write(field, buffer, v, base);
+      continue;
+    }
+    if (isUnionDataType(field.type)) {
+      const member = unionMember(field.type, raw);
+      if (!member && v !== undefined)
+        throw new Error(`Invalid union tag for ${field.type.tag}`);
+      if (!member) continue;
+      const size = encode(member, v, buffer, base + field.offset, transform);
+      if (struct.dynamic) extra += size - field.size;
+      continue;
+    }
+    const size = encode(field.type, v, buffer, base + field.offset, transform);
+    extra += size - field.size;
+  }
+  return struct.size + extra;
+}
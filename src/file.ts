@@ -0,0 +1,280 @@
+import { constants, type PathLike } from "node:fs";
+import { open, type FileHandle } from "node:fs/promises";
+import { alloc } from "./memory.js";
+import type { Struct, StructConstructor } from "./structure.js";
+import type { Transformers } from "./transformer.js";
+import type { byte, DomainObject } from "./type.js";
+
+export interface StructFileOptions<H extends DomainObject = DomainObject> {
+  /**
+   * Struct of the header preceding the records. New files get a zeroed header
+   */
+  readonly header?: StructConstructor<H, any>;
+  /**
+   * Opens the file read-only. Otherwise it is created if missing
+   */
+  readonly readOnly?: boolean;
+  /**
+   * Flushes every write to the disk before resolving. Defaults to false
+   */
+  readonly sync?: boolean;
+  /**
+   * Records read at once when iterating. Defaults to 1024
+   */
+  readonly batchSize?: byte;
+}
+
+/**
+ * A file of fixed-size records of struct, following an optional header,
+ * read and written in place.
+ *
+ * Records are appended in a single write past the last whole record, and
+ * counted once written. A record torn by a crash is dropped when the file
+ * is opened.
+ */
+export class StructFile<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined = undefined,
+  H extends DomainObject = DomainObject,
+> implements AsyncIterable<Struct<T, TR>>
+{
+  /**
+   * Writes, run one at a time in call order
+   */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    public readonly struct: StructConstructor<T, TR>,
+    private readonly handle: FileHandle,
+    private readonly opts: StructFileOptions<H>,
+    private count: byte,
+  ) {}
+
+  /**
+   * Opens the record file at path.
+   * @param path
+   * @param struct
+   * @param opts
+   */
+  public static async open<
+    T extends DomainObject,
+    TR extends Transformers<T> | undefined = undefined,
+    H extends DomainObject = DomainObject,
+  >(
+    path: PathLike,
+    struct: StructConstructor<T, TR>,
+    opts: StructFileOptions<H> = {},
+  ): Promise<StructFile<T, TR, H>> {
+    if (struct.dynamic || opts.header?.dynamic)
+      throw new Error("Dynamic structs have no fixed record size");
+    const batchSize = opts.batchSize ?? 1024;
+    if (!Number.isInteger(batchSize) || batchSize < 1)
+      throw new RangeError(`Invalid batch size ${batchSize}`);
+    const handle = await open(
+      path,
+      opts.readOnly ? constants.O_RDONLY : constants.O_RDWR | constants.O_CREAT,
+    );
+    try {
+      const { size } = await handle.stat();
+      const start = opts.header?.size ?? 0;
+      if (size === 0 && start && !opts.readOnly)
+        await writeAt(handle, alloc(start), 0);
+      else if (size < start) throw new Error("Invalid file size");
+      const count = Math.floor((Math.max(size, start) - start) / struct.size);
+      const end = start + count * struct.size;
+      if (size > end && !opts.readOnly) await handle.truncate(end);
+      return new StructFile(struct, handle, opts, count);
+    } catch (e) {
+      await handle.close();
+      throw e;
+    }
+  }
+
+  /**
+   * Number of records
+   */
+  public get length(): byte {
+    return this.count;
+  }
+
+  private get start(): byte {
+    return this.opts.header?.size ?? 0;
+  }
+
+  private at(index: byte): byte {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count)
+      throw new RangeError(`Index ${index} out of range [0, ${this.count})`);
+    return this.start + index * this.struct.size;
+  }
+
+  private encode(value: Struct<T, TR> | Partial<T>): Buffer {
+    return value instanceof this.struct
+      ? (value as Struct<T, TR>).data()
+      : this.struct.partial(value as Partial<T>).data();
+  }
+
+  private exclusive<R>(write: () => Promise<R>): Promise<R> {
+    if (this.opts.readOnly)
+      return Promise.reject(new Error("File is read-only"));
+    const out = this.queue.then(write);
+    this.queue = out.catch(() => undefined);
+    return out;
+  }
+
+  private async flush(): Promise<void> {
+    if (this.opts.sync) await this.handle.datasync();
+  }
+
+  /**
+   * Reads the header. Its checksums are verified as by `from`.
+   */
+  public async header(): Promise<Struct<H, any>> {
+    const { header } = this.opts;
+    if (!header) throw new Error("No header");
+    const buffer = alloc(header.size);
+    await readAt(this.handle, buffer, 0);
+    return header.from(buffer);
+  }
+
+  /**
+   * Replaces the header with an instance of its struct, or its arguments.
+   * @param value
+   */
+  public setHeader(value: Struct<H, any> | Partial<H>): Promise<void> {
+    return this.exclusive(async () => {
+      const { header } = this.opts;
+      if (!header) throw new Error("No header");
+      const data =
+        value instanceof header
+          ? (value as Struct<H, any>).data()
+          : header.partial(value as Partial<H>).data();
+      await writeAt(this.handle, data, 0);
+      await this.flush();
+    });
+  }
+
+  /**
+   * Reads the record at index. Its checksums are verified as by `from`.
+   * @param index
+   */
+  public async get(index: byte): Promise<Struct<T, TR>> {
+    const buffer = alloc(this.struct.size);
+    await readAt(this.handle, buffer, this.at(index));
+    return this.struct.from(buffer);
+  }
+
+  /**
+   * Replaces the record at index with an instance of struct, or its arguments.
+   * @param index
+   * @param value
+   */
+  public set(index: byte, value: Struct<T, TR> | Partial<T>): Promise<void> {
+    return this.exclusive(async () => {
+      const position = this.at(index);
+      await writeAt(this.handle, this.encode(value), position);
+      await this.flush();
+    });
+  }
+
+  /**
+   * Appends instances of struct, or their arguments. Resolves with the new length.
+   * @param values
+   */
+  public append(...values: (Struct<T, TR> | Partial<T>)[]): Promise<byte> {
+    return this.exclusive(async () => {
+      // Encoded first, so an invalid value appends nothing
+      const data = Buffer.concat(values.map((v) => this.encode(v)));
+      const end = this.start + this.count * this.struct.size;
+      try {
+        await writeAt(this.handle, data, end);
+        await this.flush();
+      } catch (e) {
+        // A failed append leaves no partial record
+        await this.handle.truncate(end).catch(() => undefined);
+        throw e;
+      }
+      return (this.count += values.length);
+    });
+  }
+
+  /**
+   * Drops the records from length on.
+   * @param length
+   */
+  public truncate(length: byte): Promise<void> {
+    return this.exclusive(async () => {
+      if (!Number.isInteger(length) || length < 0 || length > this.count)
+        throw new RangeError(`Invalid length ${length}`);
+      await this.handle.truncate(this.start + length * this.struct.size);
+      await this.flush();
+      this.count = length;
+    });
+  }
+
+  /**
+   * Iterates the records from start to end (exclusive), reading them in
+   * batches of `batchSize`. Negative indexes count from the end.
+   * @param start
+   * @param end
+   */
+  public async *records(
+    start: byte = 0,
+    end: byte = this.count,
+  ): AsyncGenerator<Struct<T, TR>> {
+    const from = Math.max(0, start < 0 ? this.count + start : start);
+    const to = Math.min(this.count, end < 0 ? this.count + end : end);
+    const size = this.struct.size;
+    const batchSize = this.opts.batchSize ?? 1024;
+    for (let i = from; i < to; i += batchSize) {
+      const n = Math.min(batchSize, to - i);
+      const buffer = alloc(n * size);
+      await readAt(this.handle, buffer, this.start + i * size);
+      for (let j = 0; j < n; j++) yield this.struct.from(buffer, j * size);
+    }
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<Struct<T, TR>> {
+    return this.records();
+  }
+
+  /**
+   * Closes the file once the pending writes are done.
+   */
+  public async close(): Promise<void> {
+    await this.queue;
+    await this.handle.close();
+  }
+}
+
+async function readAt(
+  handle: FileHandle,
+  buffer: Buffer,
+  position: byte,
+): Promise<void> {
+  for (let o = 0; o < buffer.length; ) {
+    const { bytesRead } = await handle.read(
+      buffer,
+      o,
+      buffer.length - o,
+      position + o,
+    );
+    if (!bytesRead) throw new Error("Unexpected end of file");
+    o += bytesRead;
+  }
+}
+
+async function writeAt(
+  handle: FileHandle,
+  buffer: Buffer,
+  position: byte,
+): Promise<void> {
+  for (let o = 0; o < buffer.length; ) {
+    const { bytesWritten } = await handle.write(
+      buffer,
+      o,
+      buffer.length - o,
+      position + o,
+    );
+    o += bytesWritten;
+  }
+}
@@ -0,0 +1,299 @@
+import { isBigEndianDataType, sizeof } from "./memory.js";
+import type { StructConstructor } from "./structure.js";
+import {
+  DataType,
+  isArrayDataType,
+  isBitfieldDataType,
+  isEnumDataType,
+  isFlagsDataType,
+  isStringDataType,
+  isPaddingDataType,
+  isStructDataType,
+  isUnionDataType,
+  type AlignedData,
+  type byte,
+  type Type,
+} from "./type.js";
+
+export interface HeaderOptions {
+  /**
+   * Typedef names of nested structs. Defaults to `<name>_<field>_t`
+   */
+  readonly names?: Map<StructConstructor<any, any>, string>;
+  /**
+   * Include guard. Defaults to the upper-cased name followed by `_H`
+   */
+  readonly guard?: string;
+}
+
+const identifier = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function alignUp8(bits: byte): byte {
+  return Math.ceil(bits / 8) * 8;
+}
+
+function assertIdentifier(name: string): string {
+  if (!identifier.test(name)) throw new Error(`Invalid C identifier ${name}`);
+  return name;
+}
+
+function cType(type: DataType): string {
+  switch (type) {
+    case DataType.INT8:
+      return "int8_t";
+    case DataType.UINT8:
+      return "uint8_t";
+    case DataType.INT16LE:
+    case DataType.INT16BE:
+      return "int16_t";
+    case DataType.UINT16LE:
+    case DataType.UINT16BE:
+      return "uint16_t";
+    case DataType.INT32LE:
+    case DataType.INT32BE:
+      return "int32_t";
+    case DataType.UINT32LE:
+    case DataType.UINT32BE:
+      return "uint32_t";
+    case DataType.INT64LE:
+    case DataType.INT64BE:
+      return "int64_t";
+    case DataType.UINT64LE:
+    case DataType.UINT64BE:
+      return "uint64_t";
+    case DataType.FLOAT32LE:
+    case DataType.FLOAT32BE:
+      return "float";
+    case DataType.FLOAT64LE:
+    case DataType.FLOAT64BE:
+      return "double";
+    case DataType.FLOAT16LE:
+    case DataType.FLOAT16BE:
+      return "uint16_t";
+    case DataType.Q15LE:
+    case DataType.Q15BE:
+      return "int16_t";
+    case DataType.Q31LE:
+    case DataType.Q31BE:
+    case DataType.Q16_16LE:
+    case DataType.Q16_16BE:
+      return "int32_t";
+  }
+  throw new Error(`${DataType[type]} has no C type`);
+}
+
+/**
+ * Comment of the scalars C does not tell apart from their storage.
+ */
+function note(type: DataType): string {
+  const notes = [];
+  if (sizeof(type) === 3 || DataType[type]!.startsWith("Q"))
+    notes.push(DataType[type]!.replace(/(LE|BE)$/, "").replace("_", "."));
+  // C has no portable half float type
+  if (type === DataType.FLOAT16LE || type === DataType.FLOAT16BE)
+    notes.push("half float");
+  if (isBigEndianDataType(type)) notes.push("big-endian");
+  return notes.length ? ` /* ${notes.join(", ")} */` : "";
+}
+
+/**
+ * Collects the nested structs of struct, dependencies first.
+ */
+function collect(
+  struct: StructConstructor<any, any>,
+  name: string,
+  names: Map<StructConstructor<any, any>, string>,
+  order: StructConstructor<any, any>[],
+): void {
+  if (struct.dynamic)
+    throw new Error(`${name}: dynamic structs have no C layout`);
+  const base = name.replace(/_t$/, "");
+  const visit = (type: Type, field: string) => {
+    if (isStructDataType(type)) {
+      if (!names.has(type)) names.set(type, `${base}_${field}_t`);
+      collect(type, names.get(type)!, names, order);
+    } else if (isArrayDataType(type)) visit(type[0], field);
+    else if (isUnionDataType(type))
+      for (const [tag, member] of Object.entries(type.members))
+        visit(member, `${field}_${tag}`);
+  };
+  for (const [k, field] of Object.entries(struct.fields)) visit(field.type, k);
+  if (!order.includes(struct)) order.push(struct);
+}
+
+/**
+ * Returns the element type and dimensions of a (nested) array type.
+ */
+function dimensions(type: Type): [Type, byte[]] {
+  const dims: byte[] = [];
+  while (isArrayDataType(type)) {
+    dims.push(type[1]);
+    type = type[0];
+  }
+  return [type, dims];
+}
+
+function declare(
+  key: string,
+  field: AlignedData,
+  names: Map<StructConstructor<any, any>, string>,
+): string[] {
+  const [type, dims] = dimensions(field.type);
+  const suffix = dims.map((d) => `[${d}]`).join("");
+  if (isStructDataType(type)) return [`${names.get(type)} ${key}${suffix};`];
+  if (isUnionDataType(type)) {
+    const lines = [`union { /* selected by ${type.tag} */`];
+    for (const [tag, member] of Object.entries(type.members))
+      lines.push(`  ${names.get(member)} ${type.tag}_${tag};`);
+    lines.push(`} ${key};`);
+    return lines;
+  }
+  if (isPaddingDataType(type))
+    return [`uint8_t ${key}[${type.padding}]; /* reserved */`];
+  if (isBitfieldDataType(type)) {
+    const note = isBigEndianDataType(type.type)
+      ? " /* big-endian, allocated MSB first */"
+      : "";
+    const name = type.reserved ? "" : `${key} `;
+    return [`${cType(type.type)} ${name}: ${type.bits};${note}`];
+  }
+  if (isFlagsDataType(type)) {
+    const flags = Object.entries(type.flags)
+      .map(([k, b]) => `${k} = 1 << ${b}`)
+      .join(", ");
+    const order = isBigEndianDataType(type.type) ? ", big-endian" : "";
+    return [`${cType(type.type)} ${key}${suffix}; /* ${flags}${order} */`];
+  }
+  if (isStringDataType(type)) {
+    const termination =
+      type.termination === "null"
+        ? "null-terminated"
+        : `${type.termination}-padded`;
+    // UTF-16 strings are declared as their 16-bit units
+    const decl =
+      type.encoding === "utf16le"
+        ? `uint16_t ${key}${suffix}[${type.length / 2}]`
+        : `char ${key}${suffix}[${type.length}]`;
+    return [`${decl}; /* ${type.encoding}, ${termination} */`];
+  }
+  if (isEnumDataType(type)) {
+    const members = Object.entries(type.enum)
+      .map(([k, v]) => `${k} = ${v}`)
+      .join(", ");
+    const order = isBigEndianDataType(type.type) ? ", big-endian" : "";
+    return [`${cType(type.type)} ${key}${suffix}; /* ${members}${order} */`];
+  }
+  // 24-bit integers are declared as their bytes
+  if (sizeof(type) === 3)
+    return [`uint8_t ${key}${suffix}[3];${note(type as DataType)}`];
+  return [
+    `${cType(type as DataType)} ${key}${suffix};${note(type as DataType)}`,
+  ];
+}
+
+function declareStruct(
+  struct: StructConstructor<any, any>,
+  name: string,
+  names: Map<StructConstructor<any, any>, string>,
+): string[] {
+  const lines = ["typedef struct {"];
+  // Fills the bits between from and to with unnamed bitfields and padding bytes
+  const pad = (from: byte, to: byte) => {
+    if (from % 8 && to > from) {
+      const bits = Math.min(8 - (from % 8), to - from);
+      lines.push(`  uint8_t : ${bits};`);
+      from += bits;
+    }
+    if (to - from >= 8) {
+      lines.push(`  uint8_t _pad${from / 8}[${(to - from) >> 3}];`);
+      from += (to - from) & ~7;
+    }
+    if (to > from) lines.push(`  uint8_t : ${to - from};`);
+  };
+  // Position in bits of the end of the previous field
+  let end = 0;
+  for (const [k, field] of Object.entries(struct.fields)) {
+    const key = assertIdentifier(k);
+    if (isBitfieldDataType(field.type)) {
+      const start = field.offset * 8 + (field.bit ?? 0);
+      pad(end, start);
+      end = start + field.type.bits;
+    } else {
+      // Non-bitfield members start on a byte boundary
+      pad(alignUp8(end), field.offset * 8);
+      end = (field.offset + sizeof(field.type)) * 8;
+    }
+    for (const line of declare(key, field, names)) lines.push(`  ${line}`);
+  }
+  pad(alignUp8(end), struct.size * 8);
+  lines.push(`} ${name};`);
+  return lines;
+}
+
+function assertLayout(
+  struct: StructConstructor<any, any>,
+  name: string,
+): string[] {
+  const lines = [
+    `NBSP_STATIC_ASSERT(sizeof(${name}) == ${struct.size}, "${name} size");`,
+  ];
+  for (const [k, field] of Object.entries(struct.fields))
+    if (!isBitfieldDataType(field.type))
+      lines.push(
+        `NBSP_STATIC_ASSERT(offsetof(${name}, ${k}) == ${field.offset}, "${name}.${k} offset");`,
+      );
+  return lines;
+}
+
+/**
+ * Generates a C/C++ header declaring struct and its nested structs, with the
+ * exact layout of nbsp: every struct is packed and padding is explicit.
+ * Static assertions make the build fail if a compiler lays them out differently.
+ * @param struct
+ * @param name The typedef name of struct
+ * @param opts
+ */
+export function toCHeader(
+  struct: StructConstructor<any, any>,
+  name: string,
+  opts: HeaderOptions = {},
+): string {
+  const names = new Map(opts.names);
+  names.set(struct, name);
+  const order: StructConstructor<any, any>[] = [];
+  collect(struct, name, names, order);
+  for (const n of names.values()) assertIdentifier(n);
+  const guard = assertIdentifier(
+    opts.guard ?? `${name.replace(/_t$/, "").toUpperCase()}_H`,
+  );
+  const lines = [
+    "/*",
+    " * Generated by nbsp. Do not edit.",
+    " *",
+    " * Multi-byte fields are little-endian unless marked big-endian; the layout",
+    " * assumes a little-endian target. Bitfields follow GCC/Clang allocation.",
+    " */",
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    "",
+    "#include <stddef.h>",
+    "#include <stdint.h>",
+    "",
+    "#ifndef NBSP_STATIC_ASSERT",
+    "#ifdef __cplusplus",
+    "#define NBSP_STATIC_ASSERT static_assert",
+    "#else",
+    "#define NBSP_STATIC_ASSERT _Static_assert",
+    "#endif",
+    "#endif",
+    "",
+    "#pragma pack(push, 1)",
+    "",
+  ];
+  for (const s of order)
+    lines.push(...declareStruct(s, names.get(s)!, names), "");
+  lines.push("#pragma pack(pop)", "");
+  for (const s of order) lines.push(...assertLayout(s, names.get(s)!), "");
+  lines.push(`#endif /* ${guard} */`, "");
+  return lines.join("\n");
+}
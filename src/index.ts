@@ -1,31 +1,127 @@
-export { toString, toBytes, sizeof } from "./memory.js";
+export { alignof, toString, toBytes, sizeof } from "./memory.js";
+export { GrowableStructArray, StructArray } from "./array.js";
+export {
+  checksum,
+  type Checksum,
+  type ChecksumAlgorithm,
+  type Checksums,
+} from "./checksum.js";
+export {
+  type Constraint,
+  type Constraints,
+  type Violation,
+} from "./constraint.js";
+export { type Change } from "./delta.js";
+export { type ChangeListener } from "./tracker.js";
+export { type DumpOptions } from "./dump.js";
+export { StructFile, type StructFileOptions } from "./file.js";
+export {
+  cHeaderToTypeScript,
+  parseCHeader,
+  type CImportOptions,
+  type CStruct,
+} from "./cimport.js";
+export { toCHeader, type HeaderOptions } from "./header.js";
+export {
+  fromSchema,
+  SCHEMA_VERSION,
+  toSchema,
+  type DataTypeName,
+  type FieldSchema,
+  type SchemaDescriptor,
+  type SchemaOptions,
+  type StructSchema,
+  type TypeSchema,
+} from "./schema.js";
+export {
+  checkRoundTrip,
+  StructGenerator,
+  type RandomOptions,
+  type RoundTripOptions,
+} from "./random.js";
+export {
+  readStructs,
+  StructDecoder,
+  StructEncoder,
+  writeStructs,
+  type DecoderOptions,
+  type EncoderOptions,
+  type Framing,
+} from "./stream.js";
+export {
+  VersionedStruct,
+  type Migration,
+  type Migrations,
+  type VersionDetector,
+  type VersionOptions,
+} from "./version.js";
 export {
   struct,
   type Struct,
   type StructConstructor,
   type StructFields,
   type StructMethods,
+  type StructOptions,
   type StructReturn,
 } from "./structure.js";
 export {
+  bitfieldDataType,
   charDataType,
   DataType,
+  enumDataType,
+  flagsDataType,
+  lengthPrefix,
+  paddingDataType,
+  stringDataType,
+  unionDataType,
   type ArrayDataType,
   type BigIntDataType,
   type BindedType,
+  type BitfieldDataType,
+  type BufferLike,
   type DataValue,
   type DomainObject,
+  type DynamicArrayDataType,
+  type DynamicLength,
+  type DynamicNumericArrayDataType,
+  type DynamicStructArrayDataType,
+  type EnumDataType,
+  type Flags,
+  type FlagsDataType,
+  type FlagsStorageDataType,
+  type FixedPointDataType,
+  type FloatDataType,
+  type IntegerDataType,
+  type LengthPrefix,
+  type LengthPrefixDataType,
+  type NestedArrayDataType,
   type NumericArrayDataType,
+  type PaddingDataType,
+  type StringDataType,
+  type StringEncoding,
+  type StringTermination,
   type StructArrayDataType,
   type StructDefinitionDataType,
+  type Text,
   type Type,
+  type TypedArray,
+  type UnionDataType,
+  type UnionMember,
+  type UnknownEnumValue,
   type byte,
   type bytes,
 } from "./type.js";
 export {
+  codec,
+  codecs,
+  pipe,
+  TransformerRegistry,
+  transformers,
+  type Codec,
   type Transformer,
   type Transformers,
   type ApplyTransformers,
   type PropertyTransformer,
   type PickTransformers,
+  type TypedTransformers,
 } from "./transformer.js";
@@ -1,11 +1,30 @@
+import { endianness } from "node:os";
 import type { StructConstructor } from "./structure.js";
 import {
   DataType,
+  isArrayDataType,
+  isBitfieldDataType,
+  isDynamicArrayDataType,
+  isEnumDataType,
+  isFlagsDataType,
+  isPaddingDataType,
+  isStringDataType,
+  isStructDataType,
+  isUnionDataType,
   type AlignedData,
+  type BitfieldDataType,
   type ArrayDataType,
+  type DynamicArrayDataType,
+  type EnumDataType,
+  type FlagsDataType,
+  type StringDataType,
+  type BufferLike,
   type byte,
   type bytes,
+  type NumericArrayDataType,
   type Type,
+  type TypedArray,
+  type UnionDataType,
 } from "./type.js";
 
 let encoder: TextEncoder, decoder: TextDecoder;
@@ -40,141 +59,783 @@ export function alloc(s: byte) {
   return Buffer.alloc(s);
 }
 
-export function read(data: AlignedData, buffer: Buffer, offset: byte) {
-  switch (data.type) {
+/**
+ * Wraps the source memory in a Buffer without copying it.
+ * @param source
+ */
+export function toBuffer(source: BufferLike): Buffer {
+  if (source instanceof Buffer) return source;
+  return Buffer.from(source as ArrayBuffer);
+}
+
+const hostBigEndian = endianness() === "BE";
+
+function typedArrayConstructor(type: DataType) {
+  switch (type) {
     case DataType.INT8:
-      return buffer.readInt8(offset + data.offset);
+      return Int8Array;
     case DataType.UINT8:
-      return buffer.readUInt8(offset + data.offset);
+      return Uint8Array;
+  }
+  // Typed arrays use the byte order of the host
+  if (isBigEndianDataType(type) !== hostBigEndian) return undefined;
+  switch (type) {
     case DataType.INT16LE:
-      return buffer.readInt16LE(offset + data.offset);
     case DataType.INT16BE:
-      return buffer.readInt16BE(offset + data.offset);
+      return Int16Array;
     case DataType.UINT16LE:
-      return buffer.readUInt16LE(offset + data.offset);
     case DataType.UINT16BE:
-      return buffer.readUInt16BE(offset + data.offset);
+      return Uint16Array;
     case DataType.INT32LE:
-      return buffer.readInt32LE(offset + data.offset);
     case DataType.INT32BE:
-      return buffer.readInt32BE(offset + data.offset);
+      return Int32Array;
     case DataType.UINT32LE:
-      return buffer.readUInt32LE(offset + data.offset);
     case DataType.UINT32BE:
-      return buffer.readUInt32BE(offset + data.offset);
+      return Uint32Array;
     case DataType.INT64LE:
-      return buffer.readBigInt64LE(offset + data.offset);
     case DataType.INT64BE:
-      return buffer.readBigInt64BE(offset + data.offset);
+      return BigInt64Array;
     case DataType.UINT64LE:
-      return buffer.readBigUInt64LE(offset + data.offset);
     case DataType.UINT64BE:
-      return buffer.readBigUInt64BE(offset + data.offset);
+      return BigUint64Array;
     case DataType.FLOAT32LE:
-      return buffer.readFloatLE(offset + data.offset);
     case DataType.FLOAT32BE:
-      return buffer.readFloatBE(offset + data.offset);
+      return Float32Array;
     case DataType.FLOAT64LE:
-      return buffer.readDoubleLE(offset + data.offset);
     case DataType.FLOAT64BE:
-      return buffer.readDoubleBE(offset + data.offset);
+      return Float64Array;
     default:
-      throw new Error("Invalid type");
+      return undefined;
   }
 }
 
-export function write(
-  data: AlignedData,
+/**
+ * Returns a typed array aliasing the numeric array of type at offset, or
+ * undefined if its byte order differs from the host's or it is misaligned.
+ * @param type
+ * @param buffer
+ * @param offset
+ */
+export function typedArray(
+  type: NumericArrayDataType,
   buffer: Buffer,
-  value: byte,
   offset: byte,
-): void {
-  switch (data.type) {
-    case DataType.INT8:
-      assertInteger(value, -128, 127, "INT8");
-      buffer.writeInt8(value, offset + data.offset);
-      break;
+): TypedArray | undefined {
+  const [item, length] = type;
+  const constructor = typedArrayConstructor(item);
+  const byteOffset = buffer.byteOffset + offset;
+  if (!constructor || byteOffset % constructor.BYTES_PER_ELEMENT)
+    return undefined;
+  return new constructor(buffer.buffer as ArrayBuffer, byteOffset, length);
+}
+
+export function isSignedDataType(type: DataType): boolean {
+  switch (type) {
     case DataType.UINT8:
-      assertInteger(value, 0, 0xff, "UINT8");
-      buffer.writeUInt8(value, offset + data.offset);
-      break;
-    case DataType.INT16LE:
-      assertInteger(value, -0x8000, 0x7fff, "INT16");
-      buffer.writeInt16LE(value, offset + data.offset);
-      break;
-    case DataType.INT16BE:
-      assertInteger(value, -0x8000, 0x7fff, "INT16");
-      buffer.writeInt16BE(value, offset + data.offset);
-      break;
     case DataType.UINT16LE:
-      assertInteger(value, 0, 0xffff, "UINT16");
-      buffer.writeUInt16LE(value, offset + data.offset);
-      break;
     case DataType.UINT16BE:
-      assertInteger(value, 0, 0xffff, "UINT16");
-      buffer.writeUInt16BE(value, offset + data.offset);
-      break;
-    case DataType.INT32LE:
-      assertInteger(value, -0x80000000, 0x7fffffff, "INT32");
-      buffer.writeInt32LE(value, offset + data.offset);
-      break;
-    case DataType.INT32BE:
-      assertInteger(value, -0x80000000, 0x7fffffff, "INT32");
-      buffer.writeInt32BE(value, offset + data.offset);
-      break;
     case DataType.UINT32LE:
-      assertInteger(value, 0, 0xffffffff, "UINT32");
-      buffer.writeUInt32LE(value, offset + data.offset);
-      break;
     case DataType.UINT32BE:
-      assertInteger(value, 0, 0xffffffff, "UINT32");
-      buffer.writeUInt32BE(value, offset + data.offset);
-      break;
-    case DataType.INT64LE: {
-      const bigint = BigInt(value);
-      assertBigIntRange(bigint, -(1n << 63n), (1n << 63n) - 1n, "INT64");
-      buffer.writeBigInt64LE(bigint, offset + data.offset);
-      break;
-    }
-    case DataType.INT64BE: {
-      const bigint = BigInt(value);
-      assertBigIntRange(bigint, -(1n << 63n), (1n << 63n) - 1n, "INT64");
-      buffer.writeBigInt64BE(bigint, offset + data.offset);
-      break;
-    }
-    case DataType.UINT64LE: {
-      const bigint = BigInt(value);
-      assertBigIntRange(bigint, 0n, (1n << 64n) - 1n, "UINT64");
-      buffer.writeBigUInt64LE(bigint, offset + data.offset);
-      break;
-    }
-    case DataType.UINT64BE: {
-      const bigint = BigInt(value);
-      assertBigIntRange(bigint, 0n, (1n << 64n) - 1n, "UINT64");
-      buffer.writeBigUInt64BE(bigint, offset + data.offset);
-      break;
-    }
-    case DataType.FLOAT32LE:
-      assertFinite(value, "FLOAT32");
-      buffer.writeFloatLE(value, offset + data.offset);
-      break;
+    case DataType.UINT64LE:
+    case DataType.UINT64BE:
+    case DataType.UINT24LE:
+    case DataType.UINT24BE:
+      return false;
+    default:
+      return true;
+  }
+}
+
+export function isBigEndianDataType(type: DataType): boolean {
+  switch (type) {
+    case DataType.INT16BE:
+    case DataType.UINT16BE:
+    case DataType.INT32BE:
+    case DataType.UINT32BE:
+    case DataType.INT64BE:
+    case DataType.UINT64BE:
     case DataType.FLOAT32BE:
-      assertFinite(value, "FLOAT32");
-      buffer.writeFloatBE(value, offset + data.offset);
-      break;
-    case DataType.FLOAT64LE:
-      assertFinite(value, "FLOAT64");
-      buffer.writeDoubleLE(value, offset + data.offset);
-      break;
     case DataType.FLOAT64BE:
-      assertFinite(value, "FLOAT64");
-      buffer.writeDoubleBE(value, offset + data.offset);
-      break;
+    case DataType.FLOAT16BE:
+    case DataType.INT24BE:
+    case DataType.UINT24BE:
+    case DataType.Q15BE:
+    case DataType.Q31BE:
+    case DataType.Q16_16BE:
+      return true;
     default:
-      throw new Error("Invalid type");
+      return false;
   }
 }
 
+function readBytes(
+  buffer: Buffer,
+  start: byte,
+  length: byte,
+  bigEndian: boolean,
+): bigint {
+  let v = 0n;
+  for (let i = 0; i < length; i++) {
+    const b = buffer[start + (bigEndian ? i : length - 1 - i)]!;
+    v = (v << 8n) | BigInt(b);
+  }
+  return v;
+}
+
+function writeBytes(
+  buffer: Buffer,
+  v: bigint,
+  start: byte,
+  length: byte,
+  bigEndian: boolean,
+): void {
+  for (let i = 0; i < length; i++) {
+    buffer[start + (bigEndian ? length - 1 - i : i)] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+}
+
+/**
+ * Reads and writes a value of a fixed type at an offset of a buffer.
+ */
+export interface Accessor {
+  read(buffer: Buffer, offset: byte): any;
+  write(buffer: Buffer, value: any, offset: byte): void;
+}
+
+const bitfields = new WeakMap<AlignedData, Accessor>();
+
+/**
+ * Returns the accessor of a bitfield, whose bits are located once.
+ * Bits are allocated LSB first in LE units and MSB first in BE units, so a
+ * bitfield is always a contiguous run of bits in the byte stream.
+ */
+function bitfield(data: AlignedData<BitfieldDataType>): Accessor {
+  let out = bitfields.get(data);
+  if (out) return out;
+  const { type, bits } = data.type;
+  const position = data.offset * 8 + (data.bit ?? 0);
+  const at = Math.floor(position / 8);
+  const lead = position % 8;
+  const length = Math.ceil((lead + bits) / 8);
+  const bigEndian = isBigEndianDataType(type);
+  const shift = bigEndian ? length * 8 - lead - bits : lead;
+  const signed = isSignedDataType(type);
+  const label = `${DataType[type]}:${bits}`;
+  if (sizeof(type) === 8) {
+    const width = BigInt(bits);
+    const mask = ((1n << width) - 1n) << BigInt(shift);
+    const max = 1n << BigInt(signed ? bits - 1 : bits);
+    out = {
+      read(buffer, offset) {
+        const raw = readBytes(buffer, offset + at, length, bigEndian);
+        const v = (raw & mask) >> BigInt(shift);
+        return signed && v >> (width - 1n) ? v - (1n << width) : v;
+      },
+      write(buffer, value, offset) {
+        const v = BigInt(value);
+        assertBigIntRange(v, signed ? -max : 0n, max - 1n, label);
+        const start = offset + at;
+        const raw = readBytes(buffer, start, length, bigEndian);
+        const bitsValue = (BigInt.asUintN(bits, v) << BigInt(shift)) & mask;
+        writeBytes(buffer, (raw & ~mask) | bitsValue, start, length, bigEndian);
+      },
+    };
+  } else {
+    const unit = 2 ** shift;
+    const range = 2 ** bits;
+    const max = 2 ** (signed ? bits - 1 : bits);
+    const readRaw = (buffer: Buffer, start: byte): byte =>
+      bigEndian
+        ? buffer.readUIntBE(start, length)
+        : buffer.readUIntLE(start, length);
+    out = {
+      read(buffer, offset) {
+        const v = Math.floor(readRaw(buffer, offset + at) / unit) % range;
+        return signed && v >= range / 2 ? v - range : v;
+      },
+      write(buffer, value, offset) {
+        assertInteger(value, signed ? -max : 0, max - 1, label);
+        const start = offset + at;
+        const raw = readRaw(buffer, start);
+        const current = (Math.floor(raw / unit) % range) * unit;
+        const next = raw - current + (value < 0 ? value + range : value) * unit;
+        if (bigEndian) buffer.writeUIntBE(next, start, length);
+        else buffer.writeUIntLE(next, start, length);
+      },
+    };
+  }
+  bitfields.set(data, out);
+  return out;
+}
+
+function integer(
+  label: string,
+  min: byte,
+  max: byte,
+  read: (buffer: Buffer, offset: byte) => byte,
+  write: (buffer: Buffer, value: byte, offset: byte) => void,
+): Accessor {
+  return {
+    read,
+    write(buffer, value, offset) {
+      assertInteger(value, min, max, label);
+      write(buffer, value, offset);
+    },
+  };
+}
+
+function bigInteger(
+  label: string,
+  min: bigint,
+  max: bigint,
+  read: (buffer: Buffer, offset: byte) => bigint,
+  write: (buffer: Buffer, value: bigint, offset: byte) => void,
+): Accessor {
+  return {
+    read,
+    write(buffer, value, offset) {
+      const bigint = BigInt(value);
+      assertBigIntRange(bigint, min, max, label);
+      write(buffer, bigint, offset);
+    },
+  };
+}
+
+function float(
+  label: string,
+  read: (buffer: Buffer, offset: byte) => byte,
+  write: (buffer: Buffer, value: byte, offset: byte) => void,
+): Accessor {
+  return {
+    read,
+    write(buffer, value, offset) {
+      assertFinite(value, label);
+      write(buffer, value, offset);
+    },
+  };
+}
+
+/**
+ * Rounds to the nearest integer, ties to even.
+ */
+function roundEven(v: number): number {
+  const r = Math.round(v);
+  return r - v === 0.5 && r % 2 ? r - 1 : r;
+}
+
+/**
+ * Returns a fixed-point accessor storing values as integers of `fraction` fraction bits.
+ */
+function fixed(
+  label: string,
+  fraction: byte,
+  min: byte,
+  max: byte,
+  read: (buffer: Buffer, offset: byte) => byte,
+  write: (buffer: Buffer, value: byte, offset: byte) => void,
+): Accessor {
+  const scale = 2 ** fraction;
+  return {
+    read: (buffer, offset) => read(buffer, offset) / scale,
+    write(buffer, value, offset) {
+      assertFinite(value, label);
+      const raw = roundEven(value * scale);
+      if (raw < min || raw > max)
+        throw new Error(
+          `${label}: value ${value} out of range [${min / scale}, ${max / scale}]`,
+        );
+      write(buffer, raw, offset);
+    },
+  };
+}
+
+function halfToNumber(h: byte): byte {
+  const sign = h & 0x8000 ? -1 : 1;
+  const e = (h >> 10) & 0x1f;
+  const m = h & 0x3ff;
+  if (e === 0) return sign * m * 2 ** -24;
+  if (e === 0x1f) return m ? NaN : sign * Infinity;
+  return sign * (1 + m / 1024) * 2 ** (e - 15);
+}
+
+/**
+ * Returns the half precision bits of v, rounded to nearest, ties to even.
+ * Values too large for a half float become infinite.
+ */
+function numberToHalf(v: byte): byte {
+  const sign = v < 0 || Object.is(v, -0) ? 0x8000 : 0;
+  const a = Math.abs(v);
+  if (a === 0) return sign;
+  let e = Math.floor(Math.log2(a));
+  // log2 may be off by one near powers of 2
+  if (a / 2 ** e >= 2) e++;
+  else if (a / 2 ** e < 1) e--;
+  // Subnormals are multiples of 2^-24. Rounding up to 1024 gives the smallest normal
+  if (e < -14) return sign | roundEven(a * 2 ** 24);
+  let m = roundEven((a / 2 ** e - 1) * 1024);
+  if (m === 1024) {
+    m = 0;
+    e++;
+  }
+  if (e > 15) return sign | 0x7c00;
+  return sign | ((e + 15) << 10) | m;
+}
+
+function half(
+  read: (buffer: Buffer, offset: byte) => byte,
+  write: (buffer: Buffer, value: byte, offset: byte) => void,
+): Accessor {
+  return {
+    read: (buffer, offset) => halfToNumber(read(buffer, offset)),
+    write(buffer, value, offset) {
+      assertFinite(value, "FLOAT16");
+      const h = numberToHalf(value);
+      if ((h & 0x7c00) === 0x7c00)
+        throw new Error(`FLOAT16: value ${value} out of range [-65504, 65504]`);
+      write(buffer, h, offset);
+    },
+  };
+}
+
+const INT64: [bigint, bigint] = [-(1n << 63n), (1n << 63n) - 1n];
+const UINT64: [bigint, bigint] = [0n, (1n << 64n) - 1n];
+
+// Resolved once per type, so reading a field does not dispatch on its type
+const scalars: Record<DataType, Accessor> = {
+  [DataType.INT8]: integer(
+    "INT8",
+    -128,
+    127,
+    (b, o) => b.readInt8(o),
+    (b, v, o) => b.writeInt8(v, o),
+  ),
+  [DataType.UINT8]: integer(
+    "UINT8",
+    0,
+    0xff,
+    (b, o) => b.readUInt8(o),
+    (b, v, o) => b.writeUInt8(v, o),
+  ),
+  [DataType.INT16LE]: integer(
+    "INT16",
+    -0x8000,
+    0x7fff,
+    (b, o) => b.readInt16LE(o),
+    (b, v, o) => b.writeInt16LE(v, o),
+  ),
+  [DataType.INT16BE]: integer(
+    "INT16",
+    -0x8000,
+    0x7fff,
+    (b, o) => b.readInt16BE(o),
+    (b, v, o) => b.writeInt16BE(v, o),
+  ),
+  [DataType.UINT16LE]: integer(
+    "UINT16",
+    0,
+    0xffff,
+    (b, o) => b.readUInt16LE(o),
+    (b, v, o) => b.writeUInt16LE(v, o),
+  ),
+  [DataType.UINT16BE]: integer(
+    "UINT16",
+    0,
+    0xffff,
+    (b, o) => b.readUInt16BE(o),
+    (b, v, o) => b.writeUInt16BE(v, o),
+  ),
+  [DataType.INT32LE]: integer(
+    "INT32",
+    -0x80000000,
+    0x7fffffff,
+    (b, o) => b.readInt32LE(o),
+    (b, v, o) => b.writeInt32LE(v, o),
+  ),
+  [DataType.INT32BE]: integer(
+    "INT32",
+    -0x80000000,
+    0x7fffffff,
+    (b, o) => b.readInt32BE(o),
+    (b, v, o) => b.writeInt32BE(v, o),
+  ),
+  [DataType.UINT32LE]: integer(
+    "UINT32",
+    0,
+    0xffffffff,
+    (b, o) => b.readUInt32LE(o),
+    (b, v, o) => b.writeUInt32LE(v, o),
+  ),
+  [DataType.UINT32BE]: integer(
+    "UINT32",
+    0,
+    0xffffffff,
+    (b, o) => b.readUInt32BE(o),
+    (b, v, o) => b.writeUInt32BE(v, o),
+  ),
+  [DataType.INT64LE]: bigInteger(
+    "INT64",
+    ...INT64,
+    (b, o) => b.readBigInt64LE(o),
+    (b, v, o) => b.writeBigInt64LE(v, o),
+  ),
+  [DataType.INT64BE]: bigInteger(
+    "INT64",
+    ...INT64,
+    (b, o) => b.readBigInt64BE(o),
+    (b, v, o) => b.writeBigInt64BE(v, o),
+  ),
+  [DataType.UINT64LE]: bigInteger(
+    "UINT64",
+    ...UINT64,
+    (b, o) => b.readBigUInt64LE(o),
+    (b, v, o) => b.writeBigUInt64LE(v, o),
+  ),
+  [DataType.UINT64BE]: bigInteger(
+    "UINT64",
+    ...UINT64,
+    (b, o) => b.readBigUInt64BE(o),
+    (b, v, o) => b.writeBigUInt64BE(v, o),
+  ),
+  [DataType.FLOAT32LE]: float(
+    "FLOAT32",
+    (b, o) => b.readFloatLE(o),
+    (b, v, o) => b.writeFloatLE(v, o),
+  ),
+  [DataType.FLOAT32BE]: float(
+    "FLOAT32",
+    (b, o) => b.readFloatBE(o),
+    (b, v, o) => b.writeFloatBE(v, o),
+  ),
+  [DataType.FLOAT64LE]: float(
+    "FLOAT64",
+    (b, o) => b.readDoubleLE(o),
+    (b, v, o) => b.writeDoubleLE(v, o),
+  ),
+  [DataType.FLOAT64BE]: float(
+    "FLOAT64",
+    (b, o) => b.readDoubleBE(o),
+    (b, v, o) => b.writeDoubleBE(v, o),
+  ),
+  [DataType.FLOAT16LE]: half(
+    (b, o) => b.readUInt16LE(o),
+    (b, v, o) => b.writeUInt16LE(v, o),
+  ),
+  [DataType.FLOAT16BE]: half(
+    (b, o) => b.readUInt16BE(o),
+    (b, v, o) => b.writeUInt16BE(v, o),
+  ),
+  [DataType.INT24LE]: integer(
+    "INT24",
+    -0x800000,
+    0x7fffff,
+    (b, o) => b.readIntLE(o, 3),
+    (b, v, o) => b.writeIntLE(v, o, 3),
+  ),
+  [DataType.INT24BE]: integer(
+    "INT24",
+    -0x800000,
+    0x7fffff,
+    (b, o) => b.readIntBE(o, 3),
+    (b, v, o) => b.writeIntBE(v, o, 3),
+  ),
+  [DataType.UINT24LE]: integer(
+    "UINT24",
+    0,
+    0xffffff,
+    (b, o) => b.readUIntLE(o, 3),
+    (b, v, o) => b.writeUIntLE(v, o, 3),
+  ),
+  [DataType.UINT24BE]: integer(
+    "UINT24",
+    0,
+    0xffffff,
+    (b, o) => b.readUIntBE(o, 3),
+    (b, v, o) => b.writeUIntBE(v, o, 3),
+  ),
+  [DataType.Q15LE]: fixed(
+    "Q15",
+    15,
+    -0x8000,
+    0x7fff,
+    (b, o) => b.readInt16LE(o),
+    (b, v, o) => b.writeInt16LE(v, o),
+  ),
+  [DataType.Q15BE]: fixed(
+    "Q15",
+    15,
+    -0x8000,
+    0x7fff,
+    (b, o) => b.readInt16BE(o),
+    (b, v, o) => b.writeInt16BE(v, o),
+  ),
+  [DataType.Q31LE]: fixed(
+    "Q31",
+    31,
+    -0x80000000,
+    0x7fffffff,
+    (b, o) => b.readInt32LE(o),
+    (b, v, o) => b.writeInt32LE(v, o),
+  ),
+  [DataType.Q31BE]: fixed(
+    "Q31",
+    31,
+    -0x80000000,
+    0x7fffffff,
+    (b, o) => b.readInt32BE(o),
+    (b, v, o) => b.writeInt32BE(v, o),
+  ),
+  [DataType.Q16_16LE]: fixed(
+    "Q16.16",
+    16,
+    -0x80000000,
+    0x7fffffff,
+    (b, o) => b.readInt32LE(o),
+    (b, v, o) => b.writeInt32LE(v, o),
+  ),
+  [DataType.Q16_16BE]: fixed(
+    "Q16.16",
+    16,
+    -0x80000000,
+    0x7fffffff,
+    (b, o) => b.readInt32BE(o),
+    (b, v, o) => b.writeInt32BE(v, o),
+  ),
+};
+
+const enums = new WeakMap<EnumDataType, Accessor>();
+
+// Nesting depth of leniently
+let lenient = 0;
+
+/**
+ * Runs fn reading the unknown values of `"throw"` enums as numbers, so that
+ * toJson, dumps, diffs and validate report them rather than fail.
+ * @param fn
+ */
+export function leniently<R>(fn: () => R): R {
+  lenient++;
+  try {
+    return fn();
+  } finally {
+    lenient--;
+  }
+}
+
+/**
+ * Returns the accessor of an enum, mapping its values to their names.
+ */
+function enumeration(type: EnumDataType): Accessor {
+  let out = enums.get(type);
+  if (out) return out;
+  const { read, write } = scalar(type.type);
+  const names = new Map<unknown, string>();
+  for (const [k, v] of Object.entries(type.enum)) names.set(v, k);
+  const { unknown } = type;
+  out = {
+    read(buffer, offset) {
+      const v = read(buffer, offset);
+      const name = names.get(v);
+      if (name !== undefined) return name;
+      if (unknown === "raw") return v;
+      if (unknown === "throw") {
+        if (lenient) return v;
+        throw new Error(`Unknown enum value ${v}`);
+      }
+      return unknown.fallback;
+    },
+    write(buffer, value, offset) {
+      // Unknown values read as numbers are written back as is
+      if (typeof value === "number" && unknown === "raw")
+        return write(buffer, value, offset);
+      if (!Object.hasOwn(type.enum, value))
+        throw new Error(`Unknown enum member ${value}`);
+      write(buffer, type.enum[value as string], offset);
+    },
+  };
+  enums.set(type, out);
+  return out;
+}
+
+const flagSets = new WeakMap<FlagsDataType, Accessor>();
+
+/**
+ * Returns the accessor of a flags field. Writing a boolean map sets the given
+ * flags, writing a list of names sets exactly those flags. Bits without a
+ * flag are left as is.
+ */
+function flagSet(type: FlagsDataType): Accessor {
+  let out = flagSets.get(type);
+  if (out) return out;
+  const { read, write } = scalar(type.type);
+  const entries = Object.entries(type.flags) as [string, byte][];
+  const isSet = (v: byte, bit: byte) => Math.floor(v / 2 ** bit) % 2 === 1;
+  out = {
+    read(buffer, offset) {
+      const v = read(buffer, offset);
+      if (type.format === "names")
+        return entries.filter(([, b]) => isSet(v, b)).map(([k]) => k);
+      const out: Record<string, boolean> = {};
+      for (const [k, b] of entries) out[k] = isSet(v, b);
+      return out;
+    },
+    write(buffer, value, offset) {
+      const next: Record<string, boolean> = Array.isArray(value)
+        ? Object.fromEntries(entries.map(([k]) => [k, false]))
+        : { ...value };
+      if (Array.isArray(value))
+        for (const k of value) {
+          if (!Object.hasOwn(type.flags, k))
+            throw new Error(`Unknown flag ${k}`);
+          next[k] = true;
+        }
+      let v = read(buffer, offset);
+      for (const [k, on] of Object.entries(next)) {
+        if (!Object.hasOwn(type.flags, k)) throw new Error(`Unknown flag ${k}`);
+        if (typeof on !== "boolean")
+          throw new Error(`${k}: value is not a boolean`);
+        const bit = type.flags[k]!;
+        if (isSet(v, bit) !== on) v += on ? 2 ** bit : -(2 ** bit);
+      }
+      write(buffer, v, offset);
+    },
+  };
+  flagSets.set(type, out);
+  return out;
+}
+
+const texts = new WeakMap<StringDataType, Accessor>();
+
+const charsets: Partial<Record<StringDataType["encoding"], RegExp>> = {
+  ascii: /^[\x00-\x7f]*$/,
+  latin1: /^[\x00-\xff]*$/,
+  hex: /^(?:[0-9a-fA-F]{2})*$/,
+};
+
+/**
+ * Returns the length of the longest prefix of bytes, at most max long, made of
+ * whole code points.
+ */
+function codePointBoundary(
+  bytes: Buffer,
+  max: byte,
+  encoding: StringDataType["encoding"],
+): byte {
+  let end = max;
+  if (encoding === "utf8")
+    // Continuation bytes are 10xxxxxx
+    while (end > 0 && (bytes[end]! & 0xc0) === 0x80) end--;
+  else if (encoding === "utf16le") {
+    end -= end % 2;
+    const last = end >= 2 ? bytes.readUInt16LE(end - 2) : 0;
+    // A high surrogate without its low one
+    if (last >= 0xd800 && last <= 0xdbff) end -= 2;
+  }
+  return end;
+}
+
+/**
+ * Returns the accessor of a string field.
+ */
+function text(type: StringDataType): Accessor {
+  let out = texts.get(type);
+  if (out) return out;
+  const { length, encoding, termination, overflow } = type;
+  const unit = encoding === "utf16le" ? 2 : 1;
+  const pad = termination === "space" ? 0x20 : 0;
+  // Zeros also pad space-padded strings, as in a new instance
+  const isPad = (buffer: Buffer, o: byte, padding: byte) =>
+    (buffer[o] === 0 || buffer[o] === padding) &&
+    (unit === 1 || buffer[o + 1] === 0);
+  out = {
+    read(buffer, offset) {
+      let end = 0;
+      if (termination === "null")
+        while (end < length && !isPad(buffer, offset + end, 0)) end += unit;
+      else {
+        end = length;
+        while (end > 0 && isPad(buffer, offset + end - unit, pad)) end -= unit;
+      }
+      return buffer.toString(encoding, offset, offset + end);
+    },
+    write(buffer, value, offset) {
+      if (typeof value !== "string")
+        throw new Error(`${encoding}: value is not a string`);
+      if (!(charsets[encoding]?.test(value) ?? true))
+        throw new Error(`${encoding}: invalid string ${JSON.stringify(value)}`);
+      // The terminator always fits
+      const capacity = length - (termination === "null" ? unit : 0);
+      let bytes = Buffer.from(value, encoding);
+      if (bytes.length > capacity) {
+        if (overflow === "throw")
+          throw new Error(
+            `${encoding}: string of ${bytes.length} bytes exceeds ${capacity}`,
+          );
+        bytes = bytes.subarray(0, codePointBoundary(bytes, capacity, encoding));
+      }
+      bytes.copy(buffer, offset);
+      for (let i = bytes.length; i < length; i += unit) {
+        buffer[offset + i] = pad;
+        if (unit === 2) buffer[offset + i + 1] = 0;
+      }
+    },
+  };
+  texts.set(type, out);
+  return out;
+}
+
+type ScalarType = DataType | EnumDataType | FlagsDataType | StringDataType;
+
+function scalar(type: ScalarType): Accessor {
+  if (typeof type === "object")
+    return isFlagsDataType(type)
+      ? flagSet(type)
+      : isStringDataType(type)
+        ? text(type)
+        : enumeration(type);
+  const out = scalars[type];
+  if (!out) throw new Error("Invalid type");
+  return out;
+}
+
+/**
+ * Returns the reader and writer of the scalar or bitfield data, relative to
+ * the offset of its struct.
+ * @param data
+ */
+export function accessor(data: AlignedData): Accessor {
+  if (isBitfieldDataType(data.type))
+    return bitfield(data as AlignedData<BitfieldDataType>);
+  const { read, write } = scalar(data.type as ScalarType);
+  const at = data.offset;
+  if (!at) return { read, write };
+  return {
+    read: (buffer, offset) => read(buffer, offset + at),
+    write: (buffer, value, offset) => write(buffer, value, offset + at),
+  };
+}
+
+export function read(data: AlignedData, buffer: Buffer, offset: byte) {
+  if (isBitfieldDataType(data.type))
+    return bitfield(data as AlignedData<BitfieldDataType>).read(buffer, offset);
+  return scalar(data.type as ScalarType).read(buffer, offset + data.offset);
+}
+
+export function write(
+  data: AlignedData,
+  buffer: Buffer,
+  value: byte,
+  offset: byte,
+): void {
+  if (isBitfieldDataType(data.type))
+    return bitfield(data as AlignedData<BitfieldDataType>).write(
+      buffer,
+      value,
+      offset,
+    );
+  scalar(data.type as ScalarType).write(buffer, value, offset + data.offset);
+}
+
 function getDataTypeSize(type: DataType): byte {
   switch (type) {
     case DataType.INT8:
@@ -201,9 +862,32 @@ function getDataTypeSize(type: DataType): byte {
     case DataType.FLOAT64LE:
     case DataType.FLOAT64BE:
       return 8;
+    case DataType.FLOAT16LE:
+    case DataType.FLOAT16BE:
+    case DataType.Q15LE:
+    case DataType.Q15BE:
+      return 2;
+    case DataType.INT24LE:
+    case DataType.INT24BE:
+    case DataType.UINT24LE:
+    case DataType.UINT24BE:
+      return 3;
+    case DataType.Q31LE:
+    case DataType.Q31BE:
+    case DataType.Q16_16LE:
+    case DataType.Q16_16BE:
+      return 4;
   }
 }
 
+/**
+ * 24-bit integers have no C type and are stored as bytes, aligned to 1.
+ */
+function getDataTypeAlignment(type: DataType): byte {
+  const size = getDataTypeSize(type);
+  return size === 3 ? 1 : size;
+}
+
 function getStructureDataSize(structure: StructConstructor): byte {
   return structure.size;
 }
@@ -211,14 +895,57 @@ function getStructureDataSize(structure: StructConstructor): byte {
 function getArrrayDataSize(type: ArrayDataType): byte {
   return sizeof(type[0]) * type[1];
 }
+
+function getUnionDataSize(type: UnionDataType): byte {
+  let size = 0;
+  for (const member of Object.values(type.members))
+    size = Math.max(size, member.size);
+  return size;
+}
+
+function getDynamicArrayDataSize(type: DynamicArrayDataType): byte {
+  const length = type[1];
+  return typeof length === "string" ? 0 : getDataTypeSize(length.prefix);
+}
 export function sizeof(type: Type): byte {
   return typeof type === "number"
     ? getDataTypeSize(type)
     : typeof type === "string"
       ? 0
-      : Array.isArray(type)
+      : isArrayDataType(type)
         ? getArrrayDataSize(type)
-        : getStructureDataSize(type);
+        : isDynamicArrayDataType(type)
+          ? getDynamicArrayDataSize(type)
+          : isBitfieldDataType(type) ||
+              isEnumDataType(type) ||
+              isFlagsDataType(type)
+            ? getDataTypeSize(type.type)
+            : isStringDataType(type)
+              ? type.length
+              : isUnionDataType(type)
+                ? getUnionDataSize(type)
+                : isPaddingDataType(type)
+                  ? type.padding
+                  : getStructureDataSize(type);
+}
+/**
+ * Returns the alignment of type, as a C compiler lays it out: the size of
+ * scalars, the alignment of the items of arrays and the largest alignment of
+ * the members of structs and unions.
+ * @param type
+ */
+export function alignof(type: Type): byte {
+  if (typeof type === "number") return getDataTypeAlignment(type);
+  if (isArrayDataType(type)) return alignof(type[0]);
+  if (isBitfieldDataType(type) || isEnumDataType(type) || isFlagsDataType(type))
+    return getDataTypeAlignment(type.type);
+  // UTF-16 strings are arrays of 16-bit units
+  if (isStringDataType(type)) return type.encoding === "utf16le" ? 2 : 1;
+  if (isUnionDataType(type))
+    return Math.max(1, ...Object.values(type.members).map((m) => m.alignment));
+  if (isStructDataType(type)) return type.alignment;
+  // Padding and the length prefix of variable-length arrays
+  return 1;
 }
 
 function hexToBytes(hex: string): bytes {
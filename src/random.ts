@@ -0,0 +1,616 @@
+import { inspect, isDeepStrictEqual } from "node:util";
+import { sealStruct } from "./checksum.js";
+import { check, validateStruct, type Constraint } from "./constraint.js";
+import { diffType, type Change } from "./delta.js";
+import { decodeStruct, encodeStruct, sizeOfValue } from "./dynamic.js";
+import { accessor, alloc, isSignedDataType, read, sizeof } from "./memory.js";
+import type { Struct, StructConstructor } from "./structure.js";
+import { joinPath } from "./tracker.js";
+import type { Transformers } from "./transformer.js";
+import {
+  DataType,
+  isArrayDataType,
+  isBitfieldDataType,
+  isDynamicArrayDataType,
+  isEnumDataType,
+  isFlagsDataType,
+  isReservedDataType,
+  isStringDataType,
+  isStructDataType,
+  isUnionDataType,
+  type byte,
+  type DomainObject,
+  type StringDataType,
+  type Type,
+  type UnionDataType,
+} from "./type.js";
+
+export interface RandomOptions {
+  /**
+   * Seed of the generator. Defaults to a random one, kept in `seed`
+   */
+  readonly seed?: number;
+  /**
+   * Maximum length of the variable-length arrays. Defaults to 8
+   */
+  readonly maxLength?: byte;
+}
+
+export interface RoundTripOptions extends RandomOptions {
+  /**
+   * Number of instances checked. Defaults to 100
+   */
+  readonly samples?: byte;
+}
+
+/**
+ * Attempts at a value satisfying the constraint of its field
+ */
+const TRIES = 100;
+
+/**
+ * Deterministic 32-bit generator (mulberry32).
+ */
+class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  public uint32(): byte {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /**
+   * Returns a number in [0, 1).
+   */
+  public next(): number {
+    return this.uint32() / 2 ** 32;
+  }
+
+  /**
+   * Returns an integer in [min, max].
+   */
+  public integer(min: bigint, max: bigint): bigint {
+    const range = max - min + 1n;
+    let v = 0n;
+    for (let bits = 0n; 1n << bits < range; bits += 32n)
+      v = (v << 32n) | BigInt(this.uint32());
+    return min + (v % range);
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)]!;
+  }
+}
+
+function randomSeed(): byte {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+const floats: Partial<Record<DataType, number>> = {
+  [DataType.FLOAT16LE]: 65504,
+  [DataType.FLOAT16BE]: 65504,
+  [DataType.FLOAT32LE]: 3.4028234663852886e38,
+  [DataType.FLOAT32BE]: 3.4028234663852886e38,
+  [DataType.FLOAT64LE]: Number.MAX_VALUE,
+  [DataType.FLOAT64BE]: Number.MAX_VALUE,
+};
+
+/**
+ * Fraction bits of the fixed-point types
+ */
+const fixedPoints: Partial<Record<DataType, byte>> = {
+  [DataType.Q15LE]: 15,
+  [DataType.Q15BE]: 15,
+  [DataType.Q31LE]: 31,
+  [DataType.Q31BE]: 31,
+  [DataType.Q16_16LE]: 16,
+  [DataType.Q16_16BE]: 16,
+};
+
+function isRealDataType(type: DataType): boolean {
+  return type in floats || type in fixedPoints;
+}
+
+function isBigIntType(type: DataType): boolean {
+  return sizeof(type) === 8 && !isRealDataType(type);
+}
+
+/**
+ * Returns value as read back from a buffer it was written to.
+ */
+function canonical(type: Type, value: unknown): unknown {
+  const { read, write } = accessor({ type, offset: 0, size: sizeof(type) });
+  const buffer = alloc(sizeof(type));
+  write(buffer, value, 0);
+  return read(buffer, 0);
+}
+
+/**
+ * Returns a random integer of bits within the range of constraint. A quarter
+ * of the values are the simplest ones or the bounds, where bugs tend to hide.
+ */
+function integerValue(
+  random: Random,
+  bits: byte,
+  signed: boolean,
+  big: boolean,
+  constraint: Constraint | undefined,
+): number | bigint {
+  let min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  let max = (1n << BigInt(signed ? bits - 1 : bits)) - 1n;
+  const { min: lo, max: hi } = constraint ?? {};
+  if (lo !== undefined && lo > min)
+    min = typeof lo === "bigint" ? lo : BigInt(Math.ceil(lo));
+  if (hi !== undefined && hi < max)
+    max = typeof hi === "bigint" ? hi : BigInt(Math.floor(hi));
+  if (min > max) throw new RangeError(`Empty range [${lo}, ${hi}]`);
+  const edges = [0n, 1n, -1n, min, max].filter((v) => v >= min && v <= max);
+  const v =
+    random.next() < 0.25 ? random.pick(edges) : random.integer(min, max);
+  return big ? v : Number(v);
+}
+
+/**
+ * Returns a random finite float or fixed-point value within the range of
+ * constraint.
+ */
+function realValue(
+  random: Random,
+  type: DataType,
+  constraint: Constraint | undefined,
+): number {
+  const fraction = fixedPoints[type];
+  const limit =
+    fraction === undefined
+      ? floats[type]!
+      : 2 ** (sizeof(type) * 8 - 1 - fraction);
+  const bounded =
+    constraint?.min !== undefined || constraint?.max !== undefined;
+  const min = Math.max(-limit, Number(constraint?.min ?? -limit));
+  const max = Math.min(
+    fraction === undefined ? limit : limit - 2 ** -fraction,
+    Number(constraint?.max ?? limit),
+  );
+  if (min > max) throw new RangeError(`Empty range [${min}, ${max}]`);
+  let v: number;
+  if (random.next() < 0.25)
+    v = random.pick([0, 1, -1, min, max].filter((v) => v >= min && v <= max));
+  else if (bounded) {
+    const t = random.next();
+    // Not max - min, which overflows for the widest ranges
+    v = min * (1 - t) + max * t;
+  } else {
+    // Random bits reach every exponent, subnormals included
+    const buffer = alloc(sizeof(type));
+    do {
+      for (let i = 0; i < buffer.length; i++)
+        buffer[i] = random.uint32() & 0xff;
+      v = read({ type, offset: 0, size: buffer.length }, buffer, 0);
+    } while (!Number.isFinite(v));
+  }
+  v = Number(canonical(type, v));
+  // -0 is not written by a new instance, which reads 0
+  return v === 0 ? 0 : v;
+}
+
+const symbols = ["é", "ß", "Ω", "€", "中", "😀"];
+
+function stringValue(random: Random, type: StringDataType): string {
+  const { length, encoding, termination } = type;
+  const capacity =
+    length - (termination === "null" ? (encoding === "utf16le" ? 2 : 1) : 0);
+  const char = (): string => {
+    if (encoding === "hex")
+      return (random.uint32() & 0xff).toString(16).padStart(2, "0");
+    if (encoding !== "ascii" && random.next() < 0.25)
+      return encoding === "latin1"
+        ? String.fromCharCode(0xa0 + (random.uint32() % 0x60))
+        : random.pick(symbols);
+    return String.fromCharCode(0x20 + (random.uint32() % 0x5f));
+  };
+  const size = Math.floor(random.next() * (capacity + 1));
+  let out = "";
+  while (true) {
+    const next = out + char();
+    if (Buffer.byteLength(next, encoding) > size) break;
+    out = next;
+  }
+  return String(canonical(type, out));
+}
+
+/**
+ * Returns the random value of a field of type, or of each item of an array,
+ * within the range and values of constraint.
+ * @param scope Preceding sibling values, for count-from-field arrays and unions
+ */
+function randomValue(
+  random: Random,
+  type: Type,
+  constraint: Constraint | undefined,
+  path: string,
+  scope: DomainObject,
+  maxLength: byte,
+): unknown {
+  if (isStructDataType(type))
+    return randomStruct(random, type, path, maxLength);
+  if (isUnionDataType(type)) {
+    const member = type.members[Number(scope[type.tag])]!;
+    return randomStruct(random, member, path, maxLength);
+  }
+  if (isArrayDataType(type) || isDynamicArrayDataType(type)) {
+    const [item, length] = type;
+    const count =
+      typeof length === "number"
+        ? length
+        : typeof length === "string"
+          ? Number(scope[length])
+          : Math.floor(random.next() * (maxLength + 1));
+    return Array.from({ length: count }, (_, i) =>
+      randomValue(random, item, constraint, `${path}[${i}]`, {}, maxLength),
+    );
+  }
+  if (constraint?.values && random.next() < 0.75)
+    return random.pick(constraint.values);
+  if (isEnumDataType(type)) return random.pick(Object.keys(type.enum));
+  if (isFlagsDataType(type))
+    return canonical(
+      type,
+      Object.keys(type.flags).filter(() => random.next() < 0.5),
+    );
+  if (isStringDataType(type)) return stringValue(random, type);
+  if (isBitfieldDataType(type))
+    return integerValue(
+      random,
+      type.bits,
+      isSignedDataType(type.type),
+      sizeof(type.type) === 8,
+      constraint,
+    );
+  if (typeof type !== "number") return undefined;
+  if (isRealDataType(type)) return realValue(random, type, constraint);
+  return integerValue(
+    random,
+    sizeof(type) * 8,
+    isSignedDataType(type),
+    isBigIntType(type),
+    constraint,
+  );
+}
+
+/**
+ * Calls generate until its value satisfies constraint.
+ */
+function satisfying(
+  constraint: Constraint | undefined,
+  path: string,
+  generate: () => unknown,
+): unknown {
+  const expected = constraint?.const;
+  if (expected !== undefined)
+    return Array.isArray(expected) ? [...expected] : expected;
+  for (let i = 0; i < TRIES; i++) {
+    const v = generate();
+    if (!check(constraint, path, v).length) return v;
+  }
+  throw new Error(`${path}: no valid value found in ${TRIES} tries`);
+}
+
+/**
+ * Returns the raw values of a random instance of struct, satisfying its
+ * constraints. Checksums are left out, to be sealed once encoded.
+ */
+function randomStruct<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(
+  random: Random,
+  struct: StructConstructor<T, TR>,
+  path: string,
+  maxLength: byte,
+): DomainObject {
+  const counts = new Set<string>();
+  const tags = new Map<string, UnionDataType>();
+  for (const { type } of Object.values(struct.fields))
+    if (isDynamicArrayDataType(type) && typeof type[1] === "string")
+      counts.add(type[1]);
+    else if (isUnionDataType(type)) tags.set(type.tag, type);
+  const out: DomainObject = {};
+  for (const [k, { type }] of Object.entries(struct.fields)) {
+    if (isReservedDataType(type) || Object.hasOwn(struct.checksums, k))
+      continue;
+    const p = joinPath(path, k);
+    const constraint: Constraint | undefined = struct.constraints[k];
+    const union = tags.get(k);
+    if (union) {
+      // Only the keys of the members are valid tags
+      const keys = Object.keys(union.members)
+        .map(Number)
+        .filter((v) => !check(constraint, p, v).length);
+      if (!keys.length) throw new Error(`${p}: no valid union tag`);
+      out[k] = random.pick(keys);
+    } else if (counts.has(k)) {
+      const bounds = {
+        ...constraint,
+        min: Math.max(0, Number(constraint?.min ?? 0)),
+        max: Math.min(maxLength, Number(constraint?.max ?? maxLength)),
+      };
+      out[k] = satisfying(constraint, p, () =>
+        randomValue(random, type, bounds, p, out, maxLength),
+      );
+    } else
+      out[k] = satisfying(constraint, p, () =>
+        randomValue(random, type, constraint, p, out, maxLength),
+      );
+  }
+  return out;
+}
+
+/**
+ * Copies the checksums of decoded into raw, and into its nested structs.
+ */
+function withChecksums<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(
+  struct: StructConstructor<T, TR>,
+  raw: DomainObject,
+  decoded: DomainObject,
+): DomainObject {
+  const out: DomainObject = { ...raw };
+  for (const [k, { type }] of Object.entries(struct.fields)) {
+    if (Object.hasOwn(struct.checksums, k)) out[k] = decoded[k];
+    else if (isStructDataType(type))
+      out[k] = withChecksums(type, raw[k], decoded[k]);
+    else if (isUnionDataType(type)) {
+      const member = type.members[Number(raw[type.tag])];
+      if (member) out[k] = withChecksums(member, raw[k], decoded[k]);
+    } else if (
+      (isArrayDataType(type) || isDynamicArrayDataType(type)) &&
+      isStructDataType(type[0])
+    ) {
+      const item = type[0];
+      out[k] = (raw[k] as DomainObject[]).map((v, i) =>
+        withChecksums(item, v, decoded[k][i]),
+      );
+    }
+  }
+  return out;
+}
+
+interface Sample {
+  /**
+   * Raw values, checksums included
+   */
+  readonly raw: DomainObject;
+  readonly data: Buffer;
+}
+
+function encodeSample<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(struct: StructConstructor<T, TR>, raw: DomainObject): Sample {
+  const data = alloc(sizeOfValue(struct, raw, false));
+  encodeStruct(struct, raw, data, 0, false);
+  sealStruct(struct, data, 0);
+  const decoded = decodeStruct(struct, data, 0, false);
+  return { raw: withChecksums(struct, raw, decoded), data };
+}
+
+/**
+ * Generates random valid instances of a struct: every field within the range
+ * of its type and its constraint, nested structs, arrays and unions included.
+ * Values are deterministic for a seed.
+ */
+export class StructGenerator<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined = undefined,
+> {
+  public readonly seed: number;
+  private readonly random: Random;
+  private readonly maxLength: byte;
+
+  constructor(
+    public readonly struct: StructConstructor<T, TR>,
+    opts: RandomOptions = {},
+  ) {
+    this.maxLength = opts.maxLength ?? 8;
+    if (!Number.isInteger(this.maxLength) || this.maxLength < 0)
+      throw new RangeError(`Invalid max length ${this.maxLength}`);
+    this.seed = opts.seed ?? randomSeed();
+    this.random = new Random(this.seed);
+  }
+
+  private sample(): Sample {
+    const raw = randomStruct(this.random, this.struct, "", this.maxLength);
+    return encodeSample(this.struct, raw);
+  }
+
+  /**
+   * Returns the raw values of a random instance, as stored in the buffer
+   * (before output transformers).
+   */
+  public value(): DomainObject {
+    return this.sample().raw;
+  }
+
+  /**
+   * Returns the buffer of a random instance, its checksums sealed.
+   */
+  public data(): Buffer {
+    return this.sample().data;
+  }
+
+  public instance(): Struct<T, TR> {
+    return this.struct.from(this.data());
+  }
+}
+
+/**
+ * Returns the simplest value of a scalar type.
+ */
+function simplest(type: Type): unknown {
+  if (isEnumDataType(type)) return Object.keys(type.enum)[0];
+  if (isFlagsDataType(type)) return canonical(type, []);
+  if (isStringDataType(type)) return "";
+  if (isBitfieldDataType(type)) return sizeof(type.type) === 8 ? 0n : 0;
+  return typeof type === "number" && isBigIntType(type) ? 0n : 0;
+}
+
+/**
+ * Yields simpler variants of value: shorter variable-length arrays, then
+ * fields reset to their simplest value or halved.
+ */
+function* shrinkValue(
+  type: Type,
+  value: unknown,
+  scope: DomainObject,
+): Generator<unknown> {
+  if (isStructDataType(type)) yield* shrinkStruct(type, value as DomainObject);
+  else if (isUnionDataType(type)) {
+    const member = type.members[Number(scope[type.tag])];
+    if (member) yield* shrinkStruct(member, value as DomainObject);
+  } else if (isArrayDataType(type) || isDynamicArrayDataType(type)) {
+    const items = value as unknown[];
+    if (isDynamicArrayDataType(type) && items.length) {
+      yield items.slice(0, items.length >> 1);
+      if (items.length > 1) yield items.slice(0, -1);
+    }
+    for (let i = 0; i < items.length; i++)
+      for (const v of shrinkValue(type[0], items[i], {})) {
+        const out = [...items];
+        out[i] = v;
+        yield out;
+      }
+  } else {
+    const v = simplest(type);
+    if (isDeepStrictEqual(v, value)) return;
+    yield v;
+    // Integers also halve towards zero
+    if (typeof value === "bigint" && value / 2n !== 0n) yield value / 2n;
+    else if (
+      typeof value === "number" &&
+      Number.isInteger(value) &&
+      Math.trunc(value / 2) !== 0 &&
+      (isBitfieldDataType(type) ||
+        (typeof type === "number" && !isRealDataType(type)))
+    )
+      yield Math.trunc(value / 2);
+  }
+}
+
+function* shrinkStruct<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(
+  struct: StructConstructor<T, TR>,
+  raw: DomainObject,
+): Generator<DomainObject> {
+  // Counts and tags follow their arrays and unions
+  const fixed = new Set(Object.keys(struct.checksums));
+  for (const { type } of Object.values(struct.fields))
+    if (isDynamicArrayDataType(type) && typeof type[1] === "string")
+      fixed.add(type[1]);
+    else if (isUnionDataType(type)) fixed.add(type.tag);
+  for (const [k, { type }] of Object.entries(struct.fields)) {
+    if (fixed.has(k) || raw[k] === undefined) continue;
+    const count =
+      isDynamicArrayDataType(type) && typeof type[1] === "string"
+        ? type[1]
+        : undefined;
+    for (const v of shrinkValue(type, raw[k], raw)) {
+      const out: DomainObject = { ...raw, [k]: v };
+      if (count !== undefined && Array.isArray(v))
+        out[count] =
+          typeof raw[count] === "bigint" ? BigInt(v.length) : v.length;
+      yield out;
+    }
+  }
+}
+
+/**
+ * Returns why raw does not survive a round trip, if it does not.
+ */
+function roundTrip<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(struct: StructConstructor<T, TR>, raw: DomainObject): string | undefined {
+  try {
+    const sample = encodeSample(struct, raw);
+    const decoded = decodeStruct(struct, sample.data, 0, false);
+    if (!isDeepStrictEqual(decoded, sample.raw)) {
+      const changes: Change[] = [];
+      diffType(struct, sample.raw, decoded, "", changes);
+      return `${changes[0]?.path || "value"} reads back differently`;
+    }
+    const instance = struct.from(sample.data);
+    const json = instance.toJson();
+    if (!isDeepStrictEqual(struct.from(instance.data()).toJson(), json))
+      return "from(data()).toJson() differs from toJson()";
+    if (!isDeepStrictEqual(struct.toJson(sample.data), json))
+      return "toJson(buffer) differs from toJson()";
+  } catch (e) {
+    return (e as Error).message;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the simplest variant of raw still failing its round trip, and why.
+ */
+function shrink<T extends DomainObject, TR extends Transformers<T> | undefined>(
+  struct: StructConstructor<T, TR>,
+  raw: DomainObject,
+  reason: string,
+): [DomainObject, string] {
+  let attempts = 0;
+  for (let shrunk = true; shrunk && attempts < 1000; ) {
+    shrunk = false;
+    for (const candidate of shrinkStruct(struct, raw)) {
+      if (++attempts >= 1000) break;
+      if (validateStruct(struct, candidate).length) continue;
+      const failure = roundTrip(struct, candidate);
+      if (failure === undefined) continue;
+      [raw, reason, shrunk] = [candidate, failure, true];
+      break;
+    }
+  }
+  return [raw, reason];
+}
+
+/**
+ * Checks that random instances of struct survive a round trip: their raw
+ * values read back as written, and `from(data())`, `toJson(buffer)` and
+ * `toJson()` agree. Throws with the seed of the first failing instance,
+ * shrunk to its simplest failing variant.
+ * @param struct
+ * @param opts
+ */
+export function checkRoundTrip<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(struct: StructConstructor<T, TR>, opts: RoundTripOptions = {}): void {
+  const samples = opts.samples ?? 100;
+  if (!Number.isInteger(samples) || samples < 1)
+    throw new RangeError(`Invalid samples ${samples}`);
+  const maxLength = opts.maxLength ?? 8;
+  if (!Number.isInteger(maxLength) || maxLength < 0)
+    throw new RangeError(`Invalid max length ${maxLength}`);
+  const seeds = new Random(opts.seed ?? randomSeed());
+  for (let i = 0; i < samples; i++) {
+    // Each instance has its own seed, to be replayed by a StructGenerator
+    const seed = seeds.uint32();
+    const raw = randomStruct(new Random(seed), struct, "", maxLength);
+    const failure = roundTrip(struct, raw);
+    if (failure === undefined) continue;
+    const [shrunk, reason] = shrink(struct, raw, failure);
+    throw new Error(
+      `Round trip failed for seed ${seed}: ${reason}\n${inspect(shrunk, { depth: null })}`,
+    );
+  }
+}
@@ -0,0 +1,466 @@
+import { alignof, isBigEndianDataType, sizeof } from "./memory.js";
+import { struct, type StructConstructor } from "./structure.js";
+import {
+  transformers,
+  type PropertyTransformer,
+  type TransformerRegistry,
+} from "./transformer.js";
+import {
+  bitfieldDataType,
+  DataType,
+  enumDataType,
+  flagsDataType,
+  isArrayDataType,
+  isBitfieldDataType,
+  isDynamicArrayDataType,
+  isEnumDataType,
+  isFlagsDataType,
+  isPaddingDataType,
+  isStringDataType,
+  isStructDataType,
+  isUnionDataType,
+  lengthPrefix,
+  paddingDataType,
+  stringDataType,
+  unionDataType,
+  type byte,
+  type DynamicArrayDataType,
+  type EnumDataType,
+  type FlagsStorageDataType,
+  type IntegerDataType,
+  type LengthPrefixDataType,
+  type StringEncoding,
+  type StringTermination,
+  type Type,
+  type UnknownEnumValue,
+} from "./type.js";
+
+/**
+ * Version of the descriptors written by `toSchema`. `fromSchema` reads this
+ * version and the previous ones.
+ */
+export const SCHEMA_VERSION = 1;
+
+export type DataTypeName = keyof typeof DataType;
+
+export type TypeSchema =
+  | { readonly kind: "scalar"; readonly type: DataTypeName }
+  | {
+      readonly kind: "bitfield";
+      readonly type: DataTypeName;
+      readonly bits: byte;
+      readonly reserved?: true;
+    }
+  | { readonly kind: "array"; readonly item: TypeSchema; readonly length: byte }
+  | {
+      readonly kind: "dynamicArray";
+      readonly item: TypeSchema;
+      /**
+       * The field holding the item count, or the type of the count prefix
+       */
+      readonly length:
+        | { readonly field: string }
+        | { readonly prefix: DataTypeName };
+    }
+  | {
+      readonly kind: "struct";
+      /**
+       * Name of the struct in the descriptor
+       */
+      readonly struct: string;
+    }
+  | {
+      readonly kind: "union";
+      readonly tag: string;
+      /**
+       * Name of the struct of every tag value
+       */
+      readonly members: Readonly<Record<string, string>>;
+    }
+  | { readonly kind: "padding"; readonly size: byte }
+  | {
+      readonly kind: "enum";
+      readonly type: DataTypeName;
+      /**
+       * Value of every member, by name
+       */
+      readonly members: Readonly<Record<string, byte>>;
+      readonly unknown: UnknownEnumValue;
+    }
+  | {
+      readonly kind: "flags";
+      readonly type: DataTypeName;
+      /**
+       * Position of every flag, by name
+       */
+      readonly flags: Readonly<Record<string, byte>>;
+      readonly format: "map" | "names";
+    }
+  | {
+      readonly kind: "string";
+      readonly length: byte;
+      readonly encoding: StringEncoding;
+      readonly termination: StringTermination;
+      readonly overflow: "throw" | "truncate";
+    };
+
+export interface FieldSchema {
+  readonly name: string;
+  readonly type: TypeSchema;
+  readonly offset: byte;
+  readonly size: byte;
+  /**
+   * Bitfields only. Position of the first bit inside the storage unit
+   */
+  readonly bit?: byte;
+  /**
+   * Byte order of multi-byte scalars, and of the items of arrays
+   */
+  readonly endianness?: "LE" | "BE";
+  /**
+   * Name of the transformer in the registry
+   */
+  readonly transform?: string;
+}
+
+export interface StructSchema {
+  readonly name: string;
+  readonly size: byte;
+  readonly alignment: byte;
+  /**
+   * Maximum alignment of the fields, 1 when packed. Absent when naturally aligned
+   */
+  readonly pack?: byte;
+  readonly dynamic: boolean;
+  readonly fields: readonly FieldSchema[];
+}
+
+/**
+ * A portable description of a struct and of the structs it nests.
+ */
+export interface SchemaDescriptor {
+  readonly version: number;
+  /**
+   * Name of the described struct
+   */
+  readonly root: string;
+  /**
+   * Every struct, dependencies first
+   */
+  readonly structs: readonly StructSchema[];
+}
+
+export interface SchemaOptions {
+  /**
+   * Names of nested structs. Defaults to `<name>_<field>`
+   */
+  readonly names?: Map<StructConstructor<any, any>, string>;
+  /**
+   * Resolves transformers by name. Defaults to `transformers`
+   */
+  readonly registry?: TransformerRegistry;
+}
+
+function dataTypeName(type: DataType): DataTypeName {
+  return DataType[type] as DataTypeName;
+}
+
+function dataTypeOf(name: string): DataType {
+  const type = DataType[name as DataTypeName];
+  if (typeof type !== "number") throw new Error(`Unknown data type ${name}`);
+  return type;
+}
+
+/**
+ * Returns the scalar type stored by type, if any.
+ */
+function scalarOf(type: Type): DataType | undefined {
+  if (typeof type === "number") return type;
+  if (isBitfieldDataType(type) || isEnumDataType(type) || isFlagsDataType(type))
+    return type.type;
+  if (isArrayDataType(type) || isDynamicArrayDataType(type))
+    return scalarOf(type[0]);
+  return undefined;
+}
+
+/**
+ * Collects the nested structs of struct, dependencies first.
+ */
+function collect(
+  struct: StructConstructor<any, any>,
+  name: string,
+  names: Map<StructConstructor<any, any>, string>,
+  order: StructConstructor<any, any>[],
+): void {
+  const visit = (type: Type, field: string) => {
+    if (isStructDataType(type)) {
+      if (!names.has(type)) names.set(type, `${name}_${field}`);
+      collect(type, names.get(type)!, names, order);
+    } else if (isArrayDataType(type) || isDynamicArrayDataType(type))
+      visit(type[0], field);
+    else if (isUnionDataType(type))
+      for (const [tag, member] of Object.entries(type.members))
+        visit(member, `${field}_${tag}`);
+  };
+  for (const [k, field] of Object.entries(struct.fields)) visit(field.type, k);
+  if (!order.includes(struct)) order.push(struct);
+}
+
+function describeType(
+  type: Type,
+  names: Map<StructConstructor<any, any>, string>,
+): TypeSchema {
+  if (typeof type === "number")
+    return { kind: "scalar", type: dataTypeName(type) };
+  if (isBitfieldDataType(type))
+    return {
+      kind: "bitfield",
+      type: dataTypeName(type.type),
+      bits: type.bits,
+      ...(type.reserved && { reserved: true }),
+    };
+  if (isPaddingDataType(type)) return { kind: "padding", size: type.padding };
+  if (isFlagsDataType(type))
+    return {
+      kind: "flags",
+      type: dataTypeName(type.type),
+      flags: type.flags,
+      format: type.format,
+    };
+  if (isStringDataType(type))
+    return {
+      kind: "string",
+      length: type.length,
+      encoding: type.encoding,
+      termination: type.termination,
+      overflow: type.overflow,
+    };
+  if (isEnumDataType(type))
+    return {
+      kind: "enum",
+      type: dataTypeName(type.type),
+      members: type.enum,
+      unknown: type.unknown,
+    };
+  if (isStructDataType(type))
+    return { kind: "struct", struct: names.get(type)! };
+  if (isUnionDataType(type)) {
+    const members: Record<string, string> = {};
+    for (const [tag, member] of Object.entries(type.members))
+      members[tag] = names.get(member)!;
+    return { kind: "union", tag: type.tag, members };
+  }
+  if (isArrayDataType(type))
+    return {
+      kind: "array",
+      item: describeType(type[0], names),
+      length: type[1],
+    };
+  const [item, length] = type as DynamicArrayDataType;
+  return {
+    kind: "dynamicArray",
+    item: describeType(item, names),
+    length:
+      typeof length === "string"
+        ? { field: length }
+        : { prefix: dataTypeName(length.prefix) },
+  };
+}
+
+function describeStruct(
+  struct: StructConstructor<any, any>,
+  name: string,
+  names: Map<StructConstructor<any, any>, string>,
+  registry: TransformerRegistry,
+): StructSchema {
+  const fields: FieldSchema[] = [];
+  for (const [k, field] of Object.entries(struct.fields)) {
+    const scalar = scalarOf(field.type);
+    const transformer: PropertyTransformer | undefined = struct.transform[k];
+    const transform = transformer && registry.nameOf(transformer);
+    if (transformer && !transform)
+      throw new Error(`Unregistered transformer of ${name}.${k}`);
+    fields.push({
+      name: k,
+      type: describeType(field.type, names),
+      offset: field.offset,
+      size: field.size,
+      ...(field.bit !== undefined && { bit: field.bit }),
+      ...(scalar !== undefined &&
+        sizeof(scalar) > 1 && {
+          endianness: isBigEndianDataType(scalar) ? "BE" : "LE",
+        }),
+      ...(transform && { transform }),
+    });
+  }
+  return {
+    name,
+    size: struct.size,
+    alignment: struct.alignment,
+    ...(struct.pack !== undefined && { pack: struct.pack }),
+    dynamic: struct.dynamic,
+    fields,
+  };
+}
+
+/**
+ * Describes struct and its nested structs as a JSON-serializable descriptor.
+ * Transformers are referenced by their name in the registry; constraints and
+ * checksums are not described.
+ * @param struct
+ * @param name The name of struct
+ * @param opts
+ */
+export function toSchema(
+  struct: StructConstructor<any, any>,
+  name: string,
+  opts: SchemaOptions = {},
+): SchemaDescriptor {
+  const names = new Map(opts.names);
+  names.set(struct, name);
+  const order: StructConstructor<any, any>[] = [];
+  collect(struct, name, names, order);
+  const registry = opts.registry ?? transformers;
+  return {
+    version: SCHEMA_VERSION,
+    root: name,
+    structs: order.map((s) =>
+      describeStruct(s, names.get(s)!, names, registry),
+    ),
+  };
+}
+
+function buildType(
+  type: TypeSchema,
+  built: Map<string, StructConstructor<any, any>>,
+): Type {
+  const structOf = (name: string) => {
+    const s = built.get(name);
+    if (!s) throw new Error(`Unknown struct ${name}`);
+    return s;
+  };
+  switch (type.kind) {
+    case "scalar":
+      return dataTypeOf(type.type);
+    case "bitfield":
+      return bitfieldDataType(
+        dataTypeOf(type.type) as IntegerDataType,
+        type.bits,
+        { reserved: type.reserved === true },
+      );
+    case "padding":
+      return paddingDataType(type.size);
+    case "flags":
+      return flagsDataType(
+        dataTypeOf(type.type) as FlagsStorageDataType,
+        type.flags,
+        { format: type.format },
+      );
+    case "enum":
+      return enumDataType(
+        dataTypeOf(type.type) as EnumDataType["type"],
+        type.members,
+        { unknown: type.unknown },
+      );
+    case "string":
+      return stringDataType(type.length, {
+        encoding: type.encoding,
+        termination: type.termination,
+        overflow: type.overflow,
+      });
+    case "struct":
+      return structOf(type.struct);
+    case "union": {
+      const members: Record<number, StructConstructor<any, any>> = {};
+      for (const [tag, member] of Object.entries(type.members))
+        members[Number(tag)] = structOf(member);
+      return unionDataType(type.tag, members);
+    }
+    case "array":
+      return [buildType(type.item, built), type.length] as Type;
+    case "dynamicArray":
+      return [
+        buildType(type.item, built),
+        "field" in type.length
+          ? type.length.field
+          : lengthPrefix(
+              dataTypeOf(type.length.prefix) as LengthPrefixDataType,
+            ),
+      ] as Type;
+    default:
+      throw new Error(`Unknown type ${(type as { kind: string }).kind}`);
+  }
+}
+
+function buildStruct(
+  schema: StructSchema,
+  built: Map<string, StructConstructor<any, any>>,
+  registry: TransformerRegistry,
+): StructConstructor<any, any> {
+  const definition: Record<string, Type> = {};
+  const transform: Record<string, PropertyTransformer> = {};
+  const offsets: Record<string, byte> = {};
+  let alignment = 1;
+  for (const field of schema.fields) {
+    const type = buildType(field.type, built);
+    definition[field.name] = type;
+    if (field.transform) transform[field.name] = registry.get(field.transform);
+    // Bitfields follow the field they are pinned after
+    if (!schema.dynamic && !isBitfieldDataType(type))
+      offsets[field.name] = field.offset;
+    alignment = Math.max(
+      alignment,
+      Math.min(alignof(type), schema.pack ?? Infinity),
+    );
+  }
+  // Restores the alignment raised by the align option
+  const first = schema.fields[0]?.name;
+  const align =
+    first !== undefined && schema.alignment > alignment
+      ? { [first]: schema.alignment }
+      : {};
+  const out = struct(definition as any, {
+    ...(schema.pack !== undefined && {
+      pack: schema.pack as 1 | 2 | 4 | 8 | 16,
+    }),
+    dynamic: schema.dynamic,
+    align,
+    offsets,
+    transform,
+  }) as StructConstructor<any, any>;
+  const mismatch =
+    out.size !== schema.size ||
+    schema.fields.some(({ name, offset, size, bit }) => {
+      const field = out.fields[name]!;
+      return (
+        field.offset !== offset || field.size !== size || field.bit !== bit
+      );
+    });
+  if (mismatch) throw new Error(`Invalid layout of ${schema.name}`);
+  return out;
+}
+
+/**
+ * Rebuilds the struct described by descriptor. The layout is checked against
+ * the offsets and sizes of the descriptor.
+ * @param descriptor
+ * @param opts
+ */
+export function fromSchema(
+  descriptor: SchemaDescriptor,
+  opts: Pick<SchemaOptions, "registry"> = {},
+): StructConstructor<any, any> {
+  const { version, root, structs } = descriptor;
+  if (!Number.isInteger(version) || version < 1 || version > SCHEMA_VERSION)
+    throw new Error(`Unsupported schema version ${version}`);
+  const registry = opts.registry ?? transformers;
+  const built = new Map<string, StructConstructor<any, any>>();
+  for (const schema of structs) {
+    if (built.has(schema.name))
+      throw new Error(`Duplicate struct ${schema.name}`);
+    built.set(schema.name, buildStruct(schema, built, registry));
+  }
+  const out = built.get(root);
+  if (!out) throw new Error(`Unknown struct ${root}`);
+  return out;
+}
@@ -0,0 +1,329 @@
+import {
+  Readable,
+  Transform,
+  type TransformCallback,
+  type Writable,
+} from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { read, sizeof, write } from "./memory.js";
+import type { Struct, StructConstructor } from "./structure.js";
+import type { Transformers } from "./transformer.js";
+import type { byte, DomainObject, LengthPrefix } from "./type.js";
+
+/**
+ * How records are delimited in a stream:
+ * - `undefined`: records follow each other, with no framing
+ * - `LengthPrefix`: every record is preceded by its size in bytes
+ * - `Buffer | string`: every record is followed by a delimiter
+ */
+export type Framing = LengthPrefix | Buffer | string | undefined;
+
+export interface DecoderOptions {
+  readonly framing?: Framing;
+  /**
+   * Emit struct instances or plain objects. Defaults to instance
+   */
+  readonly output?: "instance" | "json";
+  /**
+   * Maximum bytes buffered waiting for a record to complete. Defaults to 1 MiB
+   */
+  readonly maxLength?: byte;
+}
+
+export interface EncoderOptions {
+  readonly framing?: Framing;
+}
+
+function isLengthPrefix(framing: Framing): framing is LengthPrefix {
+  return typeof framing === "object" && "prefix" in framing;
+}
+
+function delimiterOf(framing: Framing): Buffer | undefined {
+  if (typeof framing === "string") return Buffer.from(framing);
+  if (framing instanceof Buffer) {
+    if (!framing.length) throw new Error("Empty delimiter");
+    return framing;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the encoded size of the record at offset, or undefined if it is
+ * not complete yet.
+ */
+function recordSize(
+  struct: StructConstructor<any, any>,
+  buffer: Buffer,
+  offset: byte,
+): byte | undefined {
+  if (buffer.length - offset < struct.size) return undefined;
+  if (!struct.dynamic) return struct.size;
+  try {
+    const size = struct.byteLength(buffer, offset);
+    return offset + size <= buffer.length ? size : undefined;
+  } catch {
+    // Reading the lengths of an incomplete record fails
+    return undefined;
+  }
+}
+
+/**
+ * Reassembles chunks into complete records.
+ */
+class Framer {
+  private pending: Buffer = Buffer.alloc(0);
+  private readonly delimiter: Buffer | undefined;
+  private readonly maxLength: byte;
+
+  constructor(
+    private readonly struct: StructConstructor<any, any>,
+    private readonly framing: Framing,
+    maxLength: byte = 1 << 20,
+  ) {
+    this.delimiter = delimiterOf(framing);
+    this.maxLength = Math.max(maxLength, struct.size);
+  }
+
+  /**
+   * Appends chunk and returns the records it completes.
+   */
+  public push(chunk: Uint8Array): Buffer[] {
+    const buffer = this.pending.length
+      ? Buffer.concat([this.pending, chunk])
+      : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    const records: Buffer[] = [];
+    let offset = 0;
+    for (;;) {
+      const next = this.next(buffer, offset);
+      if (!next) break;
+      const [record, end] = next;
+      if (this.framing !== undefined) this.assertSize(record);
+      if (record.length) records.push(record);
+      offset = end;
+    }
+    const rest = buffer.subarray(offset);
+    if (rest.length > this.maxLength)
+      throw new Error(`Record exceeds ${this.maxLength} bytes`);
+    // Copied, as sources may reuse the memory of their chunks
+    this.pending = Buffer.from(rest);
+    return records;
+  }
+
+  /**
+   * Asserts no partial record is left.
+   */
+  public end(): void {
+    if (this.pending.length)
+      throw new Error(`Incomplete record, ${this.pending.length} bytes left`);
+  }
+
+  /**
+   * Returns the record at offset and the offset after it.
+   */
+  private next(buffer: Buffer, offset: byte): [Buffer, byte] | undefined {
+    if (this.delimiter) {
+      const end = buffer.indexOf(this.delimiter, offset);
+      if (end < 0) return undefined;
+      return [buffer.subarray(offset, end), end + this.delimiter.length];
+    }
+    if (isLengthPrefix(this.framing)) {
+      const prefix = this.framing.prefix;
+      const header = sizeof(prefix);
+      if (buffer.length - offset < header) return undefined;
+      const size = read(
+        { type: prefix, offset: 0, size: header },
+        buffer,
+        offset,
+      ) as byte;
+      const start = offset + header;
+      if (buffer.length - start < size) return undefined;
+      return [buffer.subarray(start, start + size), start + size];
+    }
+    const size = recordSize(this.struct, buffer, offset);
+    if (size === undefined) return undefined;
+    return [buffer.subarray(offset, offset + size), offset + size];
+  }
+
+  private assertSize(record: Buffer): void {
+    if (!record.length && this.delimiter) return;
+    if (
+      record.length < this.struct.size ||
+      this.struct.byteLength(record) !== record.length
+    )
+      throw new Error(`Invalid record size ${record.length}`);
+  }
+}
+
+function decodeRecord(
+  struct: StructConstructor<any, any>,
+  record: Buffer,
+  output: DecoderOptions["output"],
+) {
+  return output === "json" ? struct.toJson(record) : struct.from(record);
+}
+
+/**
+ * Frames the encoded record of value.
+ */
+function encodeRecord<T extends DomainObject>(
+  struct: StructConstructor<T, any>,
+  value: Struct<T, any> | Partial<T>,
+  framing: Framing,
+): Buffer[] {
+  const data =
+    value instanceof struct
+      ? (value as Struct<T, any>).data()
+      : struct.partial(value as Partial<T>).data();
+  if (isLengthPrefix(framing)) {
+    const header = Buffer.alloc(sizeof(framing.prefix));
+    write(
+      { type: framing.prefix, offset: 0, size: header.length },
+      header,
+      data.length,
+      0,
+    );
+    return [header, data];
+  }
+  const delimiter = delimiterOf(framing);
+  if (!delimiter) return [data];
+  if (data.includes(delimiter))
+    throw new Error("Record contains the delimiter");
+  return [data, delimiter];
+}
+
+/**
+ * Transform stream from bytes to the records of struct, regardless of how
+ * chunks are split.
+ */
+export class StructDecoder<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined = undefined,
+> extends Transform {
+  private readonly framer: Framer;
+
+  constructor(
+    private readonly struct: StructConstructor<T, TR>,
+    private readonly opts: DecoderOptions = {},
+  ) {
+    super({ readableObjectMode: true });
+    this.framer = new Framer(struct, opts.framing, opts.maxLength);
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    try {
+      for (const record of this.framer.push(chunk))
+        this.push(decodeRecord(this.struct, record, this.opts.output));
+      callback();
+    } catch (e) {
+      callback(e as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      this.framer.end();
+      callback();
+    } catch (e) {
+      callback(e as Error);
+    }
+  }
+}
+
+/**
+ * Transform stream from instances of struct, or their arguments, to bytes.
+ */
+export class StructEncoder<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined = undefined,
+> extends Transform {
+  constructor(
+    private readonly struct: StructConstructor<T, TR>,
+    private readonly opts: EncoderOptions = {},
+  ) {
+    super({ writableObjectMode: true });
+  }
+
+  override _transform(
+    value: Struct<T, TR> | Partial<T>,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    try {
+      for (const data of encodeRecord(this.struct, value, this.opts.framing))
+        this.push(data);
+      callback();
+    } catch (e) {
+      callback(e as Error);
+    }
+  }
+}
+
+/**
+ * Iterates the records of struct read from source, like a socket or a file stream.
+ * @param struct
+ * @param source
+ * @param opts
+ */
+export function readStructs<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(
+  struct: StructConstructor<T, TR>,
+  source: AsyncIterable<Uint8Array>,
+  opts: DecoderOptions & { readonly output: "json" },
+): AsyncGenerator<T>;
+export function readStructs<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(
+  struct: StructConstructor<T, TR>,
+  source: AsyncIterable<Uint8Array>,
+  opts?: DecoderOptions,
+): AsyncGenerator<Struct<T, TR>>;
+export async function* readStructs(
+  struct: StructConstructor<any, any>,
+  source: AsyncIterable<Uint8Array>,
+  opts: DecoderOptions = {},
+): AsyncGenerator<any> {
+  const framer = new Framer(struct, opts.framing, opts.maxLength);
+  for await (const chunk of source)
+    for (const record of framer.push(chunk))
+      yield decodeRecord(struct, record, opts.output);
+  framer.end();
+}
+
+/**
+ * Writes the records of source to target, waiting for target to drain.
+ * Resolves once every record is written.
+ * @param struct
+ * @param source Instances of struct, or their arguments
+ * @param target
+ * @param opts
+ */
+export function writeStructs<
+  T extends DomainObject,
+  TR extends Transformers<T> | undefined,
+>(
+  struct: StructConstructor<T, TR>,
+  source:
+    | Iterable<Struct<T, TR> | Partial<T>>
+    | AsyncIterable<Struct<T, TR> | Partial<T>>,
+  target: Writable,
+  opts: EncoderOptions & {
+    /**
+     * End target after the last record. Defaults to true
+     */
+    readonly end?: boolean;
+  } = {},
+): Promise<void> {
+  return pipeline(
+    Readable.from(source, { objectMode: true }),
+    new StructEncoder(struct, opts),
+    target,
+    { end: opts.end ?? true },
+  );
+}
@@ -1,24 +1,105 @@
-import { alloc, read, write, sizeof } from "./memory.js";
-import type { PropertyTransformer, Transformers } from "./transformer.js";
+import { inspect } from "node:util";
+import {
+  accessor,
+  alignof,
+  alloc,
+  isBigEndianDataType,
+  leniently,
+  read,
+  write,
+  sizeof,
+  toBuffer,
+  typedArray,
+  type Accessor,
+} from "./memory.js";
+import {
+  decode,
+  decodeStruct,
+  encodeStruct,
+  isVariableType,
+  layout,
+  lengthViolation,
+  measure,
+  sizeOfValue,
+} from "./dynamic.js";
+import {
+  assertChecksums,
+  sealStruct,
+  verifyChecksums,
+  type Checksums,
+} from "./checksum.js";
+import {
+  decodeDelta,
+  diffStruct,
+  diffType,
+  encodeDelta,
+  type Change,
+} from "./delta.js";
+import { dumpStruct, type DumpOptions } from "./dump.js";
+import {
+  assertConstraint,
+  validateStruct,
+  type Constraint,
+  type Constraints,
+  type Violation,
+} from "./constraint.js";
+import { joinPath, Tracker, type ChangeListener } from "./tracker.js";
+import type {
+  PropertyTransformer,
+  Transformers,
+  TypedTransformers,
+} from "./transformer.js";
 import { applyTransform, type ApplyTransformers } from "./transformer.js";
 import {
   DataType,
   isArrayDataType,
+  isBitfieldDataType,
+  isDynamicArrayDataType,
+  isFlagsDataType,
+  isReservedDataType,
   isStructDataType,
+  isUnionDataType,
   type AlignedData,
   type ArrayDataType,
   type BindedType,
+  type BufferLike,
   type byte,
   type DataValue,
   type DomainObject,
+  type DynamicArrayDataType,
+  type FlagsDataType,
+  type NumericArrayDataType,
   type StructDefinitionDataType,
   type Type,
+  type TypedArray,
+  type UnionDataType,
 } from "./type.js";
 
 export type StructFields<T extends DomainObject> = {
   [K in keyof Record<keyof T, Type>]: AlignedData;
 };
 
+/**
+ * The memory an instance's accessors read from and write to.
+ * Mutable so views can be rebound without redefining properties.
+ */
+interface Binding {
+  buffer: Buffer;
+  offset: byte;
+  /**
+   * Whether the buffer belongs to the instance, so dynamic structs may replace it when they grow
+   */
+  owned: boolean;
+  /**
+   * Observable instances only. Shared by their nested structs and arrays
+   */
+  readonly tracker?: Tracker | undefined;
+  /**
+   * Path of the bound struct from the observable instance
+   */
+  readonly path?: string | undefined;
+}
+
 // type InferedStruct<
 //   T extends DomainObject,
 //   TR extends Transformers<T> | undefined,
@@ -35,8 +116,9 @@ interface StructStaticMethods<
   TR extends Transformers<T> | undefined = undefined,
 > {
   /**
-   * Copys the contents of the buffer. Returns a new Instance.
+   * Copys the contents of the buffer, starting at offset. Returns a new Instance.
    * @param buffer
+   * @param offset
    */
   from(buffer: Buffer, offset?: byte): Struct<T, TR>;
   /**
@@ -49,6 +131,37 @@ interface StructStaticMethods<
    * @param buffer
    */
   toJson(buffer: Buffer): InferedDomainObject<T, TR>;
+  /**
+   * Binds a new instance directly onto the memory of buffer, starting at offset. No copy is made;
+   * writes to the instance are writes to buffer.
+   * @param buffer
+   * @param offset
+   */
+  view(buffer: BufferLike, offset?: byte): Struct<T, TR>;
+  /**
+   * Returns the encoded size of the struct at offset. Equals size unless the struct is dynamic.
+   * @param buffer
+   * @param offset
+   */
+  byteLength(buffer: Buffer, offset?: byte): byte;
+  /**
+   * Returns the size needed to encode args. Equals size unless the struct is dynamic.
+   * @param args
+   */
+  byteLength(args: Partial<T>): byte;
+  /**
+   * Returns the constraint violations of the struct at offset.
+   * @param buffer
+   * @param offset
+   */
+  validate(buffer: Buffer, offset?: byte): Violation[];
+  /**
+   * Returns an annotated hex dump of the struct at offset
+   * @param buffer
+   * @param offset
+   * @param opts
+   */
+  dump(buffer: Buffer, offset?: byte, opts?: DumpOptions): string;
 
   partial(args?: Partial<T>): Struct<T, TR>;
 }
@@ -57,9 +170,21 @@ export interface StructConstructor<
   TR extends Transformers<T> | undefined = undefined,
 > extends StructStaticMethods<T, TR> {
   /**
-   * The size of the struct
+   * The size of the struct. The minimum size when dynamic
    */
   readonly size: byte;
+  /**
+   * The alignment of the struct when nested in another struct or an array
+   */
+  readonly alignment: byte;
+  /**
+   * The maximum alignment of the fields, 1 when packed. Undefined when naturally aligned
+   */
+  readonly pack: byte | undefined;
+  /**
+   * Whether the struct has variable-length fields
+   */
+  readonly dynamic: boolean;
   /**
    * The fields of the struct
    */
@@ -68,6 +193,14 @@ export interface StructConstructor<
    * The transformers
    */
   readonly transform: Transformers<T>;
+  /**
+   * The constraints
+   */
+  readonly constraints: Constraints<T>;
+  /**
+   * The checksums
+   */
+  readonly checksums: Checksums<T>;
 
   new (args: T): Struct<T, TR>;
 }
@@ -77,7 +210,7 @@ export interface StructMethods<
   TR extends Transformers<T> | undefined,
 > {
   /**
-   * Returns the buffer
+   * Returns the buffer, its checksums recomputed if the instance owns it
    */
   data(): Buffer;
   /**
@@ -99,18 +232,118 @@ export interface StructMethods<
    * Sets the contents of the buffer to 0
    */
   reset(): void;
+  /**
+   * Moves the instance to another offset of its buffer. No allocation is made.
+   * @param offset
+   */
+  rebind(offset: byte): this;
+  /**
+   * Moves the instance onto buffer, starting at offset. No copy is made.
+   * @param buffer
+   * @param offset
+   */
+  rebind(buffer: BufferLike, offset?: byte): this;
+  /**
+   * Returns a typed array aliasing the numeric array field key, or undefined
+   * if its byte order differs from the host's or it is misaligned.
+   * @param key
+   */
+  typedArray(key: keyof T & string): TypedArray | undefined;
+  /**
+   * Returns the constraint violations and checksum mismatches of the fields, and of nested structs
+   */
+  validate(): Violation[];
+  /**
+   * Recomputes the checksums, after fields are assigned. Construction and `data()` do it as well
+   */
+  seal(): void;
+  /**
+   * Returns the fields, and the fields of nested structs, whose raw values differ in target
+   * @param target
+   */
+  diff(target: Struct<T, TR> | Buffer): Change[];
+  /**
+   * Encodes the fields whose raw values differ in target, to be applied by `patch`
+   * @param target
+   */
+  delta(target: Struct<T, TR> | Buffer): Buffer;
+  /**
+   * Applies a delta encoded by `delta`
+   * @param delta
+   */
+  patch(delta: Buffer): this;
+  /**
+   * Returns an annotated hex dump: the bytes of every field with its path and raw value
+   * @param opts
+   */
+  dump(opts?: DumpOptions): string;
+  /**
+   * Observable structs only. Whether a field, or the field at path, changed since the last `clearDirty`
+   * @param path Like `items[2].x`
+   */
+  isDirty(path?: string): boolean;
+  /**
+   * Observable structs only. Returns the paths of the changed fields, in order of first change
+   */
+  dirtyFields(): string[];
+  /**
+   * Observable structs only. Forgets the changed fields
+   */
+  clearDirty(): void;
+  /**
+   * Observable structs only. Calls listener on every change of a field. Returns a function removing it
+   * @param listener
+   */
+  subscribe(listener: ChangeListener): () => void;
+  /**
+   * Observable structs only. Calls listener on every change of the field at path, or inside it.
+   * Returns a function removing it
+   * @param path Like `items[2]`
+   * @param listener
+   */
+  subscribe(path: string, listener: ChangeListener): () => void;
   /**
    * Returns a plain object with the content of the struct
    */
   toJson(): T;
 }
 
+interface BaseStructOptions<T extends DomainObject> {
+  /**
+   * Lays out the fields without padding. Same as `pack: 1`
+   */
+  packed?: boolean;
+  /**
+   * Maximum alignment of the fields, like `#pragma pack(n)`
+   */
+  pack?: 1 | 2 | 4 | 8 | 16;
+  /**
+   * Alignment of fields, overriding their natural alignment and pack, like `__attribute__((aligned(n)))`
+   */
+  align?: Partial<Record<keyof T, byte>>;
+  /**
+   * Absolute offset of fields, like the registers of a memory map. Following fields are laid out after them
+   */
+  offsets?: Partial<Record<keyof T, byte>>;
+  dynamic?: boolean;
+  constraints?: Constraints<T>;
+  checksums?: Checksums<T>;
+  /**
+   * What `from` and `toJson(buffer)` do with a checksum mismatch. Reported mismatches are returned by `validate`
+   */
+  checksumMismatch?: "throw" | "report";
+  /**
+   * Records the fields changed through instances and notifies listeners. See `subscribe`
+   */
+  observable?: boolean;
+}
+
 export type StructOptions<
   T extends DomainObject,
   TR extends Transformers<T> | undefined,
 > = TR extends undefined
-  ? { packed?: boolean }
-  : { packed?: boolean; transform?: TR };
+  ? BaseStructOptions<T>
+  : BaseStructOptions<T> & { transform?: TR };
 
 export type Struct<
   T extends DomainObject,
@@ -124,76 +357,627 @@ export type StructReturn<
 function alignUp(n: byte, align: byte): byte {
   return (n + align - 1) & ~(align - 1);
 }
+function isIntegerField(field?: AlignedData): boolean {
+  return (
+    field !== undefined &&
+    (typeof field.type === "number" || isBitfieldDataType(field.type))
+  );
+}
+function isPowerOfTwo(n: byte): boolean {
+  return Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+}
+interface AlignOptions<T> {
+  /**
+   * Maximum alignment of the fields, 1 when packed
+   */
+  readonly pack?: byte | undefined;
+  readonly dynamic?: boolean | undefined;
+  readonly align?: Partial<Record<keyof T, byte>> | undefined;
+  readonly offsets?: Partial<Record<keyof T, byte>> | undefined;
+}
 function alignFields<T extends Record<string, Type>>(
   data: T,
-  packed: boolean = false,
-): { fields: StructFields<T>; size: byte } {
+  { pack, dynamic = false, align = {}, offsets = {} }: AlignOptions<T> = {},
+): { fields: StructFields<T>; size: byte; alignment: byte } {
+  if (pack !== undefined && !isPowerOfTwo(pack))
+    throw new Error(`Invalid pack ${pack}`);
+  for (const [k, n] of Object.entries(align) as [string, byte][]) {
+    if (!(k in data)) throw new Error(`Unknown field ${k}`);
+    if (!isPowerOfTwo(n)) throw new Error(`Invalid alignment ${n} of ${k}`);
+  }
+  for (const [k, n] of Object.entries(offsets) as [string, byte][]) {
+    if (!(k in data)) throw new Error(`Unknown field ${k}`);
+    if (dynamic)
+      throw new Error(`Dynamic field ${k} cannot have a fixed offset`);
+    if (!Number.isInteger(n) || n < 0)
+      throw new Error(`Invalid offset ${n} of ${k}`);
+  }
   const fields = {} as { [K in keyof T]: AlignedData };
-  let offset = 0;
+  // Position in bits, so bitfields can share a storage unit
+  let cursor = 0;
   let maxAlign = 1;
+  // Byte order of the bitfield run being packed, if any
+  let bitOrder: boolean | undefined;
   const mnames = new Set();
-  for (const [k, m] of Object.entries(data) as [keyof T, DataType][]) {
-    const size = sizeof(m);
-    if (!packed) {
-      offset = alignUp(offset, size);
-      maxAlign = Math.max(maxAlign, size);
-    }
-    fields[k] = {
-      type: m,
-      size,
-      offset,
-    };
-    offset += size;
+  for (const [k, m] of Object.entries(data) as [keyof T, Type][]) {
+    // Dynamic unions take the size of their active member
+    const size = dynamic && isUnionDataType(m) ? 0 : sizeof(m);
+    // Explicit alignments win over pack, as with __attribute__((aligned))
+    const alignment = align[k] ?? Math.min(alignof(m), pack ?? Infinity);
+    const pinned = offsets[k];
+    if (isVariableType(m) && !dynamic)
+      throw new Error(`Variable-length field ${String(k)} requires dynamic`);
+    if (isDynamicArrayDataType(m) && typeof m[1] === "string") {
+      // Counts must be decoded before the array they size
+      if (!isIntegerField(fields[m[1] as keyof T]))
+        throw new Error(`Invalid length field ${m[1]}`);
+    }
+    // Tags must be decoded before the union they select
+    const tag = isUnionDataType(m) ? fields[m.tag as keyof T] : undefined;
+    if (isUnionDataType(m) && !isIntegerField(tag))
+      throw new Error(`Invalid tag field ${m.tag}`);
+    if (pinned !== undefined) {
+      if (pinned * 8 < cursor)
+        throw new Error(
+          `Field ${String(k)} at offset ${pinned} overlaps the previous field`,
+        );
+      cursor = pinned * 8;
+      bitOrder = undefined;
+    } else if (align[k] !== undefined) {
+      cursor = alignUp(cursor, alignment * 8);
+      bitOrder = undefined;
+    }
+    maxAlign = Math.max(maxAlign, alignment);
+    if (isBitfieldDataType(m)) {
+      const bigEndian = isBigEndianDataType(m.type);
+      // LE and BE runs allocate bits in opposite directions; never share a byte
+      if (bitOrder !== undefined && bitOrder !== bigEndian)
+        cursor = alignUp(cursor, 8);
+      bitOrder = bigEndian;
+      // Under pack, bitfields are contiguous as with GCC; otherwise they never
+      // straddle their storage unit
+      const contiguous = pack !== undefined;
+      const unitBits = contiguous ? 8 : size * 8;
+      // A pinned bitfield starts its storage unit
+      let unit =
+        pinned !== undefined
+          ? cursor
+          : Math.floor(cursor / unitBits) * unitBits;
+      if (!contiguous && cursor + m.bits > unit + unitBits) unit += unitBits;
+      const bit = Math.max(cursor - unit, 0);
+      fields[k] = {
+        type: m,
+        size,
+        offset: unit / 8,
+        bit,
+      };
+      cursor = unit + bit + m.bits;
+    } else {
+      let offset = Math.ceil(cursor / 8);
+      if (pinned === undefined) offset = alignUp(offset, alignment);
+      fields[k] = tag
+        ? { type: m, size, offset, tag }
+        : {
+            type: m,
+            size,
+            offset,
+          };
+      cursor = (offset + size) * 8;
+      bitOrder = undefined;
+    }
     if (mnames.has(k)) throw new Error("Duplicate name");
     mnames.add(k);
   }
-  const structSize = packed ? offset : alignUp(offset, maxAlign);
-  return { fields: Object.freeze(fields), size: structSize };
+  const offset = Math.ceil(cursor / 8);
+  // Trailing padding keeps the items of arrays aligned
+  return {
+    fields: Object.freeze(fields),
+    size: alignUp(offset, maxAlign),
+    alignment: maxAlign,
+  };
 }
 
-function defineProxyProperty(
-  target: Record<string, any>,
-  key: string,
-  field: AlignedData,
-  buffer: Buffer,
-  transformer?: PropertyTransformer,
-  offset: byte = 0,
+/**
+ * Binding of a nested struct, following the binding of its parent.
+ */
+class SubBinding implements Binding {
+  /**
+   * @param parent
+   * @param at
+   * @param key Path of the nested struct from the parent. Arrays take the path of the parent
+   */
+  constructor(
+    private readonly parent: Binding,
+    private readonly at: byte,
+    private readonly key: string = "",
+  ) {}
+  get tracker(): Tracker | undefined {
+    return this.parent.tracker;
+  }
+  get path(): string {
+    return joinPath(this.parent.path ?? "", this.key);
+  }
+  get buffer(): Buffer {
+    return this.parent.buffer;
+  }
+  set buffer(_: Buffer) {
+    throw new Error("Cannot rebind a nested struct");
+  }
+  get offset(): byte {
+    return this.parent.offset + this.at;
+  }
+  set offset(_: byte) {
+    throw new Error("Cannot rebind a nested struct");
+  }
+  get owned(): boolean {
+    return false;
+  }
+  set owned(_: boolean) {
+    throw new Error("Cannot rebind a nested struct");
+  }
+}
+
+/**
+ * The state of an instance. Its fields are accessors of the prototype.
+ */
+interface Instance {
+  __bind__: Binding;
+  /**
+   * Array views and nested structs, created on first access
+   */
+  __views__: Record<string, any> | undefined;
+}
+
+function views(target: Instance): Record<string, any> {
+  return (target.__views__ ??= {});
+}
+
+/**
+ * Creates an instance of struct bound to binding, without running its constructor.
+ */
+function bindStruct(
+  struct: StructConstructor<any, any>,
+  binding: Binding,
+): DomainObject {
+  const out: Instance = Object.create(struct.prototype);
+  out.__bind__ = binding;
+  out.__views__ = undefined;
+  return out;
+}
+
+function trackerOf(binding: Binding): Tracker {
+  if (!binding.tracker) throw new Error("Instance is not observable");
+  return binding.tracker;
+}
+
+/**
+ * Runs write. If the binding is observed, records the changes of the raw value
+ * of type at path, as read before and after.
+ */
+function tracked(
+  binding: Binding,
+  path: string,
+  type: Type,
+  read: () => any,
+  write: () => void,
 ): void {
-  const isStructField = isStructDataType(field.type);
-  const isArrayField = isArrayDataType(field.type);
-  Object.defineProperty(target, key, {
-    get() {
-      if (isStructField) return target[key];
-      else if (isArrayField) {
-        const out = readArray(
-          field as AlignedData<ArrayDataType>,
-          buffer,
-          offset,
-        );
-        return applyTransform(transformer?.output, out);
+  const { tracker } = binding;
+  if (!tracker) return write();
+  const previous = leniently(read);
+  write();
+  const changes: Change[] = [];
+  diffType(
+    type,
+    previous,
+    leniently(read),
+    joinPath(binding.path ?? "", path),
+    changes,
+  );
+  tracker.record(changes);
+}
+
+/**
+ * Prefixes the message of an error with path, like the ones of constraints.
+ */
+function named(error: unknown, path: string): unknown {
+  if (path && error instanceof Error)
+    error.message = `${path}: ${error.message}`;
+  return error;
+}
+
+/**
+ * Runs write, naming path in its errors.
+ */
+function naming(path: string, write: () => void): void {
+  try {
+    write();
+  } catch (e) {
+    throw named(e, path);
+  }
+}
+
+/**
+ * Runs write without a path, and on failure again with path() to name the
+ * fields in its error, so paths are only built for errors.
+ */
+function namingOnFailure(
+  path: () => string,
+  write: (path: string) => void,
+): void {
+  try {
+    write("");
+  } catch (e) {
+    write(path());
+    throw e;
+  }
+}
+
+/**
+ * Reads and writes the raw value of a field. Write errors name path, the full
+ * path of the field.
+ */
+interface FieldAccessor extends Accessor {
+  write(buffer: Buffer, value: any, offset: byte, path?: string): void;
+}
+
+/**
+ * Reads and writes the raw value of a field, relative to the offset of its struct.
+ */
+interface FieldCodec extends FieldAccessor {
+  readonly key: string;
+  readonly field: AlignedData;
+  readonly transformer: PropertyTransformer | undefined;
+  readonly constraint: Constraint | undefined;
+}
+
+const codecs = new WeakMap<StructConstructor<any, any>, FieldCodec[]>();
+
+function fieldAccessor(field: AlignedData): FieldAccessor {
+  if (isStructDataType(field.type)) {
+    const data = field as AlignedData<StructConstructor>;
+    return {
+      read: (buffer, offset) => readStruct(data, buffer, offset, false),
+      write: (buffer, value, offset, path) =>
+        writeStruct(data, buffer, value, offset, path),
+    };
+  }
+  if (isUnionDataType(field.type)) {
+    const data = field as AlignedData<UnionDataType>;
+    return {
+      read: (buffer, offset) => readUnion(data, buffer, offset),
+      write: (buffer, value, offset, path) =>
+        writeUnion(data, buffer, value, offset, path),
+    };
+  }
+  if (isArrayDataType(field.type)) {
+    const data = field as AlignedData<ArrayDataType>;
+    return {
+      read: (buffer, offset) => readArray(data, buffer, offset, false),
+      write: (buffer, value, offset, path) =>
+        writeArray(data, value, buffer, offset, path),
+    };
+  }
+  const { read, write } = accessor(field);
+  return {
+    read,
+    write: (buffer, value, offset, path) =>
+      path
+        ? naming(path, () => write(buffer, value, offset))
+        : write(buffer, value, offset),
+  };
+}
+
+/**
+ * Returns the codecs of the fields of a fixed-size struct, compiled on first use.
+ * @param struct
+ */
+function codecsOf(struct: StructConstructor<any, any>): FieldCodec[] {
+  let out = codecs.get(struct);
+  if (out) return out;
+  out = Object.entries(struct.fields)
+    .filter(([, field]) => !isReservedDataType(field.type))
+    .map(([key, field]) => ({
+      key,
+      field,
+      transformer: struct.transform[key],
+      constraint: struct.constraints[key],
+      ...fieldAccessor(field),
+    }));
+  codecs.set(struct, out);
+  return out;
+}
+
+/**
+ * Returns the prototype accessor of a field of a fixed-size struct.
+ */
+function fieldProperty(codec: FieldCodec): PropertyDescriptor {
+  const { key, field, constraint, read, write } = codec;
+  const input = codec.transformer?.input;
+  const output = codec.transformer?.output;
+  const type = field.type;
+  // Nested values name the paths of their own fields in errors
+  const nested =
+    isStructDataType(type) || isUnionDataType(type) || isArrayDataType(type);
+  let get: (this: Instance) => any;
+  // Transformed fields are read into a new value
+  if (output?.length)
+    get = function () {
+      const { buffer, offset } = this.__bind__;
+      return applyTransform(output, read(buffer, offset));
+    };
+  else if (isStructDataType(type))
+    get = function () {
+      return (views(this)[key] ??= bindStruct(
+        type,
+        new SubBinding(this.__bind__, field.offset, key),
+      ));
+    };
+  else if (isUnionDataType(type))
+    get = function () {
+      const binding = this.__bind__;
+      const member = unionMember(
+        field as AlignedData<UnionDataType>,
+        binding.buffer,
+        binding.offset,
+      );
+      return (
+        member && bindStruct(member, new SubBinding(binding, field.offset, key))
+      );
+    };
+  else if (isArrayDataType(type))
+    get = function () {
+      return (views(this)[key] ??= arrayView(
+        type,
+        new SubBinding(this.__bind__, field.offset),
+        key,
+        constraint,
+      ));
+    };
+  else if (isFlagsDataType(type) && type.format === "map")
+    get = function () {
+      return (views(this)[key] ??= flagsView(
+        type,
+        new SubBinding(this.__bind__, field.offset),
+        key,
+        constraint,
+      ));
+    };
+  else
+    get = function () {
+      const { buffer, offset } = this.__bind__;
+      return read(buffer, offset);
+    };
+  // Writes the raw value. Paths are built for nested values, or on failure
+  const store = (binding: Binding, value: unknown): void => {
+    if (nested)
+      return write(
+        binding.buffer,
+        value,
+        binding.offset,
+        joinPath(binding.path ?? "", key),
+      );
+    try {
+      write(binding.buffer, value, binding.offset);
+    } catch (e) {
+      throw named(e, joinPath(binding.path ?? "", key));
+    }
+  };
+  const observed = (binding: Binding, value: unknown): void =>
+    tracked(
+      binding,
+      key,
+      type,
+      () => read(binding.buffer, binding.offset),
+      () => store(binding, value),
+    );
+  let set: (this: Instance, v: any) => void;
+  // Unconstrained scalars are the hot path, written directly
+  if (!nested && !constraint && !input?.length)
+    set = function (v) {
+      const binding = this.__bind__;
+      if (binding.tracker) return observed(binding, v);
+      try {
+        write(binding.buffer, v, binding.offset);
+      } catch (e) {
+        throw named(e, joinPath(binding.path ?? "", key));
       }
-      const out = read(field, buffer, offset);
+    };
+  else
+    set = function (v) {
+      const value = applyTransform(input, v);
+      const binding = this.__bind__;
+      if (constraint)
+        assertConstraint(constraint, joinPath(binding.path ?? "", key), value);
+      if (binding.tracker) observed(binding, value);
+      else store(binding, value);
+    };
+  return { get, set };
+}
 
+/**
+ * Freezes the plain objects and arrays of a decoded value, in place.
+ */
+function frozen<T>(value: T): T {
+  if (
+    Array.isArray(value) ||
+    Object.getPrototypeOf(value ?? 0) === Object.prototype
+  ) {
+    for (const v of Object.values(value as object)) frozen(v);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Returns the prototype accessor of a field of a dynamic struct, whose offset
+ * is resolved on every access.
+ */
+function dynamicProperty(
+  struct: StructConstructor<any, any>,
+  key: string,
+  counts: Set<string>,
+): PropertyDescriptor {
+  const field = struct.fields[key]!;
+  const transformer = struct.transform[key];
+  const constraint = struct.constraints[key];
+  const isVariableField =
+    isVariableType(field.type) || isUnionDataType(field.type);
+  // Arrays of fixed-size items are read and written in place like fixed ones
+  const isLiveArray =
+    isDynamicArrayDataType(field.type) &&
+    !isVariableType(field.type[0]) &&
+    !transformer?.output;
+  return {
+    get(this: Instance) {
+      const binding = this.__bind__;
+      // Views locate the field on every access
+      const located: Binding = {
+        get buffer() {
+          return binding.buffer;
+        },
+        get offset() {
+          return layout(struct, binding.buffer, binding.offset).offsets[key]!;
+        },
+        owned: false,
+        get tracker() {
+          return binding.tracker;
+        },
+        get path() {
+          return binding.path;
+        },
+      };
+      if (
+        isArrayDataType(field.type) &&
+        !isVariableField &&
+        !transformer?.output
+      )
+        return (views(this)[key] ??= arrayView(
+          field.type,
+          located,
+          key,
+          constraint,
+        ));
+      if (isLiveArray) {
+        const type = field.type as DynamicArrayDataType;
+        const prefix = sizeof(type);
+        const items = new SubBinding(located, prefix);
+        // Not cached, as its length changes with its count
+        return arrayView(type, items, key, constraint, () => {
+          const { offsets, scope } = layout(
+            struct,
+            binding.buffer,
+            binding.offset,
+          );
+          const size = measure(type, binding.buffer, offsets[key]!, scope);
+          return (size - prefix) / sizeof(type[0]);
+        });
+      }
+      if (
+        isFlagsDataType(field.type) &&
+        field.type.format === "map" &&
+        !transformer?.output
+      )
+        return (views(this)[key] ??= flagsView(
+          field.type,
+          located,
+          key,
+          constraint,
+        ));
+      const { buffer, offset } = binding;
+      const { offsets, scope } = layout(struct, buffer, offset);
+      const at = offsets[key]! - field.offset;
+      let out;
+      if (isVariableField) {
+        out = decode(field.type, buffer, offsets[key]!, true, scope);
+        // Decoded copies are not written back, so writes to them must throw
+        if (!transformer?.output) return frozen(out);
+      } else if (isStructDataType(field.type))
+        out = bindStruct(field.type, new SubBinding(located, 0, key));
+      else if (isArrayDataType(field.type))
+        out = readArray(field as AlignedData<ArrayDataType>, buffer, at);
+      else out = read(field, buffer, at);
       return applyTransform(transformer?.output, out);
     },
-    set(v) {
-      if (isStructField)
-        return writeStruct(
-          field as AlignedData<StructConstructor>,
-          buffer,
-          applyTransform(transformer?.input, v),
-          offset,
-        );
-      else if (isArrayField)
-        writeArray(
-          field as AlignedData<ArrayDataType>,
-          applyTransform(transformer?.input, v),
-          buffer,
-          offset,
-        );
-      else write(field, buffer, applyTransform(transformer?.input, v), offset);
+    set(this: Instance, v: any) {
+      const binding = this.__bind__;
+      const value = applyTransform(transformer?.input, v);
+      const path = joinPath(binding.path ?? "", key);
+      assertConstraint(constraint, path, value);
+      // Counts and tags change other fields, so the whole struct is compared
+      tracked(
+        binding,
+        "",
+        struct,
+        () => decodeStruct(struct, binding.buffer, binding.offset, false),
+        () => {
+          if (isVariableField || counts.has(key))
+            return naming(path, () =>
+              rewriteDynamic(struct, binding, key, value),
+            );
+          const { buffer, offset } = binding;
+          const at =
+            layout(struct, buffer, offset).offsets[key]! - field.offset;
+          if (isStructDataType(field.type))
+            writeStruct(
+              field as AlignedData<StructConstructor>,
+              buffer,
+              value,
+              at,
+              path,
+            );
+          else if (isArrayDataType(field.type))
+            writeArray(
+              field as AlignedData<ArrayDataType>,
+              value,
+              buffer,
+              at,
+              path,
+            );
+          else naming(path, () => write(field, buffer, value, at));
+        },
+      );
     },
-  });
+  };
+}
+
+/**
+ * Re-encodes a dynamic struct with a new value for key. Arrays counted by key
+ * are truncated or zero-filled to the new count, and unions tagged by key are
+ * cleared when their member changes.
+ */
+function rewriteDynamic(
+  struct: StructConstructor<any, any>,
+  binding: Binding,
+  key: string,
+  value: any,
+): void {
+  const { buffer, offset } = binding;
+  const raw = decodeStruct(struct, buffer, offset, false);
+  const previous = raw[key];
+  raw[key] = value;
+  for (const [k, field] of Object.entries(struct.fields))
+    if (isUnionDataType(field.type) && field.type.tag === key) {
+      const { members } = field.type;
+      if (members[Number(value)] !== members[Number(previous)])
+        raw[k] = undefined;
+    } else if (isDynamicArrayDataType(field.type) && field.type[1] === key) {
+      const item = field.type[0];
+      const items: any[] = raw[k].slice(0, Number(value));
+      const zero = alloc(sizeOfValue(item, undefined, false));
+      while (items.length < Number(value))
+        items.push(decode(item, zero, 0, false));
+      raw[k] = items;
+    }
+  // Items of views are read before the buffer is replaced
+  const size = sizeOfValue(struct, raw, false);
+  const out = alloc(size);
+  encodeStruct(struct, raw, out, 0, false);
+  if (binding.owned) {
+    binding.buffer = out;
+    binding.offset = 0;
+  } else if (size !== layout(struct, buffer, offset).size)
+    throw new Error("Cannot resize a view");
+  else out.copy(buffer, offset);
 }
 
 function writeStruct(
@@ -201,75 +985,320 @@ function writeStruct(
   buffer: Buffer,
   value: any,
   offset: byte,
+  path: string = "",
 ): void {
-  for (const [k, field] of Object.entries(data.type.fields)) {
-    const transformer = data.type.transform[k];
-    const val = applyTransform(transformer?.input, value[k]);
-    if (isStructDataType(field.type)) {
-      writeStruct(
-        field as AlignedData<StructConstructor>,
-        buffer,
-        val,
-        offset + data.offset,
-      );
-    } else if (Array.isArray(field.type)) {
-      writeArray(
-        field as AlignedData<ArrayDataType>,
-        val,
-        buffer,
-        offset + data.offset,
-      );
-    } else write(field, buffer, val, offset + data.offset);
+  const at = offset + data.offset;
+  for (const { key, transformer, constraint, write } of codecsOf(data.type)) {
+    const val = applyTransform(transformer?.input, value[key]);
+    const p = joinPath(path, key);
+    assertConstraint(constraint, p, val);
+    write(buffer, val, at, p);
   }
 }
 
+function unionMember(
+  data: AlignedData<UnionDataType>,
+  buffer: Buffer,
+  offset: byte,
+): StructConstructor | undefined {
+  const tag = read(data.tag!, buffer, offset);
+  return data.type.members[Number(tag)];
+}
+
+/**
+ * Reads the member selected by the tag into a plain object. Unknown tags read as undefined.
+ */
+function readUnion(
+  data: AlignedData<UnionDataType>,
+  buffer: Buffer,
+  offset: byte,
+): DomainObject | undefined {
+  const member = unionMember(data, buffer, offset);
+  if (!member) return undefined;
+  return readStruct(
+    { type: member, offset: data.offset, size: member.size },
+    buffer,
+    offset,
+    false,
+  );
+}
+
+function writeUnion(
+  data: AlignedData<UnionDataType>,
+  buffer: Buffer,
+  value: any,
+  offset: byte,
+  path: string = "",
+): void {
+  const member = unionMember(data, buffer, offset);
+  if (!member) throw new Error(`Invalid union tag for ${data.type.tag}`);
+  // Bytes of the previous member must not leak into the new one
+  const start = offset + data.offset;
+  buffer.fill(0, start, start + data.size);
+  writeStruct(
+    { type: member, offset: data.offset, size: member.size },
+    buffer,
+    value ?? {},
+    offset,
+    path,
+  );
+}
+
 function writeArray(
   data: AlignedData<ArrayDataType>,
   arr: any[],
   buffer: Buffer,
   offset: byte,
+  path: string = "",
 ): void {
   const [type, length] = data.type;
   const isStruct = isStructDataType(type);
   const size = sizeof(type);
-  if (arr.length !== length) throw new RangeError("Invalid array length");
+  if (arr.length !== length)
+    throw new RangeError(
+      path ? `${path}: Invalid array length` : "Invalid array length",
+    );
+  if (!isStruct && !isArrayDataType(type)) {
+    const { write } = accessor({ type, offset: 0, size });
+    const at = offset + data.offset;
+    for (let i = 0; i < length; i++)
+      try {
+        write(buffer, arr[i], at + i * size);
+      } catch (e) {
+        throw named(e, `${path}[${i}]`);
+      }
+    return;
+  }
   for (let i = 0; i < length; i++) {
     const value = arr[i];
-    if (isStruct) {
-      writeStruct(
-        {
-          offset: i * size,
-          size: size,
-          type,
-        },
-        buffer,
-        value,
-        offset + data.offset,
-      );
-    } else if (isArrayDataType(type)) {
-      writeArray(
-        {
-          type: type,
-          offset: i * sizeof(type),
-          size: size,
-        },
-        value,
-        buffer,
-        offset + data.offset,
-      );
-    } else {
-      write(
-        {
+    namingOnFailure(
+      () => `${path}[${i}]`,
+      (p) => {
+        if (isStruct)
+          writeStruct(
+            {
+              offset: i * size,
+              size: size,
+              type,
+            },
+            buffer,
+            value,
+            offset + data.offset,
+            p,
+          );
+        else
+          writeArray(
+            {
+              type: type as ArrayDataType,
+              offset: i * size,
+              size: size,
+            },
+            value,
+            buffer,
+            offset + data.offset,
+            p,
+          );
+      },
+    );
+  }
+}
+
+/**
+ * Returns an object whose booleans read and write the bits of a flags field
+ * in place. at locates the field.
+ */
+function flagsView(
+  type: FlagsDataType,
+  at: Binding,
+  path: string,
+  constraint?: Constraint,
+): Record<string, boolean> {
+  const { read, write } = accessor({ type, offset: 0, size: sizeof(type) });
+  const out: Record<string, boolean> = {};
+  for (const name of Object.keys(type.flags))
+    Object.defineProperty(out, name, {
+      enumerable: true,
+      get: () => read(at.buffer, at.offset)[name],
+      set(v: boolean) {
+        const { buffer, offset } = at;
+        if (constraint)
+          assertConstraint(constraint, joinPath(at.path ?? "", path), {
+            ...read(buffer, offset),
+            [name]: v,
+          });
+        if (!at.tracker) return write(buffer, { [name]: v }, offset);
+        tracked(
+          at,
+          path,
           type,
-          size: size,
-          offset: i * size,
+          () => read(at.buffer, at.offset),
+          () => write(buffer, { [name]: v }, offset),
+        );
+      },
+    });
+  Object.defineProperty(out, inspect.custom, {
+    value: (_depth: byte, options: object) =>
+      inspect(read(at.buffer, at.offset), options),
+  });
+  return out;
+}
+
+/**
+ * Returns the index named by key, if canonical: digits without leading zeros.
+ */
+function elementIndex(key: string | symbol): byte | undefined {
+  if (typeof key !== "string" || !key.length || key.length > 10)
+    return undefined;
+  if (key.length > 1 && key.charCodeAt(0) === 48) return undefined;
+  let i = 0;
+  for (let c = 0; c < key.length; c++) {
+    const digit = key.charCodeAt(c) - 48;
+    if (digit < 0 || digit > 9) return undefined;
+    i = i * 10 + digit;
+  }
+  return i;
+}
+
+/**
+ * Returns an array whose elements are read from and written to the buffer on
+ * access. at locates the items, and count, read on every access, gives the
+ * length of dynamic arrays.
+ */
+function arrayView(
+  type: ArrayDataType | DynamicArrayDataType,
+  at: Binding,
+  path: string,
+  constraint?: Constraint,
+  count: () => byte = () => type[1] as byte,
+): any[] {
+  // Items can be arrays themselves
+  const item = type[0] as Type;
+  const size = sizeof(item);
+  const element = (i: byte): AlignedData<any> => ({
+    type: item,
+    size,
+    offset: i * size,
+  });
+  const scalar =
+    isStructDataType(item) || isArrayDataType(item)
+      ? undefined
+      : accessor({ type: item, offset: 0, size });
+  const get = (i: byte) => {
+    const { buffer, offset } = at;
+    if (scalar) return scalar.read(buffer, offset + i * size);
+    if (isStructDataType(item))
+      return bindStruct(item, new SubBinding(at, i * size, `${path}[${i}]`));
+    return arrayView(
+      item as ArrayDataType,
+      new SubBinding(at, i * size),
+      `${path}[${i}]`,
+    );
+  };
+  // Raw value of an item
+  const raw = (i: byte) => {
+    const { buffer, offset } = at;
+    if (scalar) return scalar.read(buffer, offset + i * size);
+    return isStructDataType(item)
+      ? readStruct(element(i), buffer, offset, false)
+      : readArray(element(i), buffer, offset, false);
+  };
+  const snapshot = () => {
+    const length = count();
+    return readArray(
+      {
+        type: [item, length] as ArrayDataType,
+        offset: 0,
+        size: length * size,
+      },
+      at.buffer,
+      at.offset,
+      false,
+    );
+  };
+  const itemPath = (i: byte) => `${joinPath(at.path ?? "", path)}[${i}]`;
+  // Writes an item, building its path only on failure
+  const store = (i: byte, value: unknown): void => {
+    const { buffer, offset } = at;
+    if (scalar)
+      try {
+        scalar.write(buffer, value, offset + i * size);
+      } catch (e) {
+        throw named(e, itemPath(i));
+      }
+    else
+      namingOnFailure(
+        () => itemPath(i),
+        (p) => {
+          if (isStructDataType(item))
+            writeStruct(element(i), buffer, value, offset, p);
+          else writeArray(element(i), value as any[], buffer, offset, p);
         },
-        buffer,
-        value,
-        offset + data.offset,
       );
-    }
-  }
+  };
+  const target: any[] = new Array(count());
+  // util.inspect shows the target of a proxy
+  Object.defineProperty(target, inspect.custom, {
+    value: (_depth: byte, options: object) => inspect(snapshot(), options),
+  });
+  return new Proxy(target, {
+    get(target, key, receiver) {
+      if (key === "length") return count();
+      const i = elementIndex(key);
+      if (i === undefined) return Reflect.get(target, key, receiver);
+      return i < count() ? get(i) : undefined;
+    },
+    set(target, key, value, receiver) {
+      const length = count();
+      if (key === "length") {
+        if (value !== length) throw new RangeError("Invalid array length");
+        return true;
+      }
+      const i = elementIndex(key);
+      if (i === undefined) return Reflect.set(target, key, value, receiver);
+      if (i >= length)
+        throw new RangeError(`Index ${i} out of range [0, ${length})`);
+      if (constraint) {
+        const next = snapshot() as any[];
+        next[i] = value;
+        assertConstraint(constraint, joinPath(at.path ?? "", path), next);
+      }
+      if (at.tracker)
+        tracked(
+          at,
+          `${path}[${i}]`,
+          item,
+          () => raw(i),
+          () => store(i, value),
+        );
+      else store(i, value);
+      return true;
+    },
+    has(target, key) {
+      const i = elementIndex(key);
+      return i === undefined ? Reflect.has(target, key) : i < count();
+    },
+    deleteProperty(target, key) {
+      return elementIndex(key) === undefined
+        ? Reflect.deleteProperty(target, key)
+        : false;
+    },
+    ownKeys(target) {
+      const keys: (string | symbol)[] = [];
+      for (let i = 0, length = count(); i < length; i++) keys.push(String(i));
+      return keys.concat(Reflect.ownKeys(target));
+    },
+    getOwnPropertyDescriptor(target, key) {
+      const i = elementIndex(key);
+      if (i === undefined || i >= count())
+        return Reflect.getOwnPropertyDescriptor(target, key);
+      return {
+        value: get(i),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      };
+    },
+  });
 }
 
 function readArray(
@@ -283,6 +1312,12 @@ function readArray(
   const size = sizeof(type);
   const isStruct = isStructDataType(type);
   const isArray = isArrayDataType(type);
+  if (!isStruct && !isArray) {
+    const { read } = accessor({ type, offset: 0, size });
+    const at = offset + data.offset;
+    for (let i = 0; i < length; i++) t.push(read(buffer, at + i * size));
+    return t;
+  }
   for (let i = 0; i < length; i++) {
     if (isStruct) {
       t.push(
@@ -297,11 +1332,11 @@ function readArray(
           mutable,
         ),
       );
-    } else if (isArray) {
+    } else {
       t.push(
         readArray(
           {
-            type: type,
+            type: type as ArrayDataType,
             offset: i * size,
             size: size,
           },
@@ -310,128 +1345,89 @@ function readArray(
           mutable,
         ),
       );
-    } else {
-      t.push(
-        read(
-          {
-            offset: i * size,
-            size,
-            type,
-          },
-          buffer,
-          offset + data.offset,
-        ),
-      );
     }
   }
   return t;
 }
+/**
+ * Reads the struct at offset into an instance bound to buffer, or into a plain object.
+ */
 function readStruct<T extends DomainObject>(
   data: AlignedData<StructConstructor<T>>,
   buffer: Buffer,
   offset: byte = 0,
   mutable: boolean = true,
 ): T {
-  const t: DomainObject = {};
-  for (const [k, field] of Object.entries(data.type.fields)) {
-    const transformer = data.type.transform[k];
-    if (mutable)
-      defineProxyProperty(
-        t,
-        k,
-        field,
-        buffer,
-        data.type.transform[k],
-        data.offset + offset,
-      );
-    else {
-      if (isStructDataType(field.type)) {
-        t[k] = applyTransform(
-          transformer?.output,
-          readStruct(
-            field as AlignedData<StructConstructor>,
-            buffer,
-            data.offset + offset,
-            mutable,
-          ),
-        );
-      } else if (isArrayDataType(field.type)) {
-        t[k] = applyTransform(
-          transformer?.output,
-          readArray(
-            field as AlignedData<ArrayDataType>,
-            buffer,
-            data.offset + offset,
-            mutable,
-          ),
-        );
-      } else {
-        t[k] = applyTransform(
-          transformer?.output,
-          read(field, buffer, data.offset + offset),
-        );
-      }
-    }
-  }
-  return t as T;
+  const at = offset + data.offset;
+  if (mutable)
+    return bindStruct(data.type, { buffer, offset: at, owned: false }) as T;
+  const out: DomainObject = {};
+  for (const { key, transformer, read } of codecsOf(data.type))
+    out[key] = applyTransform(transformer?.output, read(buffer, at));
+  return out as T;
 }
 
+/**
+ * Writes the given arguments of a fixed-size struct at offset.
+ */
 function construct(
-  target: DomainObject,
-  fields: { [K: string]: AlignedData },
-  transformers: Transformers<DomainObject>,
+  codecs: FieldCodec[],
   args: { [K: string]: any },
   buffer: Buffer,
   offset: byte = 0,
-  writeData: boolean = true,
+  path: string = "",
 ) {
-  for (const [k, field] of Object.entries(fields)) {
-    const arg = args[k];
-    const transformer = transformers[k];
-    const val = arg ? applyTransform(transformer?.input, arg) : arg;
-    if (writeData) {
-      if (isStructDataType(field.type)) {
-        target[k] = {};
-        construct(
-          target[k],
-          field.type.fields,
-          field.type.transform,
-          arg ?? {},
-          buffer,
-          offset + field.offset,
-          writeData,
-        );
-        continue;
-      }
-
-      if (val)
-        if (Array.isArray(field.type)) {
-          writeArray(field as AlignedData<ArrayDataType>, val, buffer, offset);
-        } else {
-          write(field, buffer, val, offset);
-        }
-    }
-    if (isStructDataType(field.type)) {
-      target[k] = {};
+  for (const { key, field, transformer, constraint, write } of codecs) {
+    const arg = args[key];
+    // Falsy values are written too, as codecs may not map them to 0
+    let val = arg !== undefined ? applyTransform(transformer?.input, arg) : arg;
+    const p = joinPath(path, key);
+    // Constants are written even if not given
+    if (val === undefined && constraint?.const !== undefined)
+      val = constraint.const;
+    assertConstraint(constraint, p, val);
+    if (isStructDataType(field.type))
       construct(
-        target[k],
-        field.type.fields,
-        field.type.transform,
-        val ?? {},
+        codecsOf(field.type),
+        arg ?? {},
         buffer,
         offset + field.offset,
-        writeData,
+        p,
       );
-    } else defineProxyProperty(target, k, field, buffer, transformer, offset);
+    else if (val !== undefined) write(buffer, val, offset, p);
+    else if (isArrayDataType(field.type))
+      constructItems(field.type, buffer, offset + field.offset, p);
   }
 }
 
+/**
+ * Constructs the structs of an array that was not given, so their constants are written.
+ */
+function constructItems(
+  type: ArrayDataType,
+  buffer: Buffer,
+  offset: byte,
+  path: string,
+) {
+  const [item, length] = type;
+  if (!isStructDataType(item) && !isArrayDataType(item)) return;
+  const size = sizeof(item);
+  for (let i = 0; i < length; i++)
+    if (isStructDataType(item))
+      construct(codecsOf(item), {}, buffer, offset + i * size, `${path}[${i}]`);
+    else constructItems(item, buffer, offset + i * size, `${path}[${i}]`);
+}
+
 export function struct<T extends DomainObject>(
   data: StructDefinitionDataType<T>,
   opts?: StructOptions<T, undefined>,
 ): StructConstructor<BindedType<T>>;
 
-export function struct<T extends DomainObject, TR extends Transformers<T>>(
+// Codecs must read and write the raw type of their field
+export function struct<
+  T extends DomainObject,
+  TR extends Transformers<T> & TypedTransformers<T>,
+>(
   data: StructDefinitionDataType<T>,
   opts?: StructOptions<T, TR>,
 ): StructReturn<T, TR>;
@@ -441,41 +1437,135 @@ export function struct<
   TR extends Transformers<T> | undefined = undefined,
 >(data: StructDefinitionDataType<T>, opts?: StructOptions<T, TR>): any {
   const transformers = (opts as any)?.transform ?? ({} as Transformers<T>);
-  const { fields, size } = alignFields(
-    data as Record<keyof T, DataType>,
-    opts?.packed,
+  const constraints: Constraints<T> = opts?.constraints ?? {};
+  const checksums: Checksums<T> = opts?.checksums ?? {};
+  const mismatch = opts?.checksumMismatch ?? "throw";
+  const dynamic = opts?.dynamic ?? false;
+  const pack = dynamic || opts?.packed ? 1 : opts?.pack;
+  const { fields, size, alignment } = alignFields(
+    data as Record<keyof T, Type>,
+    {
+      pack,
+      dynamic,
+      align: opts?.align,
+      offsets: opts?.offsets,
+    },
   );
+  // Fields that size a sibling array or select a union member
+  const counts = new Set<string>();
+  for (const m of Object.values(data as Record<keyof T, Type>))
+    if (isDynamicArrayDataType(m) && typeof m[1] === "string") counts.add(m[1]);
+    else if (isUnionDataType(m)) counts.add(m.tag);
   let writeData = true;
+  let pending: Binding | undefined;
+  const sizeAt = (buffer: Buffer, offset: byte): byte =>
+    dynamic ? layout(t, buffer, offset).size : size;
+  // Raw values of an instance or of the struct at the start of a buffer
+  const rawOf = (target: Struct<T, TR> | Buffer): DomainObject =>
+    decodeStruct(
+      t as StructConstructor<any, any>,
+      target instanceof Buffer
+        ? target
+        : (target as StructMethods<T, TR>).data(),
+      0,
+      false,
+    );
+  const rawAt = (binding: Binding): DomainObject =>
+    decodeStruct(
+      t as StructConstructor<any, any>,
+      binding.buffer,
+      binding.offset,
+      false,
+    );
+  // Instances of observable structs have their own tracker
+  const observe = (binding: Binding): Binding =>
+    opts?.observable ? { ...binding, tracker: new Tracker() } : binding;
+  const verify = (buffer: Buffer, offset: byte): void => {
+    if (mismatch === "report") return;
+    const [violation] = verifyChecksums(t, buffer, offset);
+    if (violation) throw new Error(`${violation.path}: ${violation.message}`);
+  };
   const t = class implements StructMethods<T, TR> {
     public static readonly fields = fields;
     public static readonly transform: Transformers<T> = transformers;
+    public static readonly constraints: Constraints<T> = constraints;
+    public static readonly checksums: Checksums<T> = checksums;
     public static readonly size: byte = size;
-    private readonly __buff__: Buffer = alloc(size);
+    public static readonly alignment: byte = alignment;
+    public static readonly pack: byte | undefined = pack;
+    public static readonly dynamic: boolean = dynamic;
+    private readonly __bind__: Binding;
+    private __views__: Record<string, any> | undefined;
     public static from(buffer: Buffer, offset?: byte): Struct<T, TR>;
     public static from(struct: Struct<T, TR>, offset?: byte): Struct<T, TR>;
     public static from(arg: any, offset: byte = 0): Struct<T, TR> {
-      writeData = false;
-
       const source: Buffer = arg instanceof Buffer ? arg : arg.data();
       const length = source.length;
-      if (size > length) throw new Error("Invalid buffer size");
+      if (offset < 0 || offset + size > length)
+        throw new Error("Invalid buffer size");
+      if (dynamic) {
+        const end = offset + sizeAt(source, offset);
+        verify(source, offset);
+        pending = {
+          buffer: Buffer.from(source.subarray(offset, end)),
+          offset: 0,
+          owned: true,
+        };
+        return new this({} as T) as any;
+      }
+      verify(source, offset);
+      writeData = false;
       const inst = new this({} as T);
 
-      source.copy(inst.data(), offset, 0, size);
+      source.copy(inst.__bind__.buffer, 0, offset, offset + size);
       return inst as unknown as Struct<T, TR>;
     }
+    public static view(source: BufferLike, offset: byte = 0): Struct<T, TR> {
+      const buffer = toBuffer(source);
+      if (offset < 0 || offset + sizeAt(buffer, offset) > buffer.length)
+        throw new Error("Invalid buffer size");
+      pending = { buffer, offset, owned: false };
+      return new this({} as T) as any;
+    }
+    public static byteLength(buffer: Buffer, offset?: byte): byte;
+    public static byteLength(args: Partial<T>): byte;
+    public static byteLength(arg: any, offset: byte = 0): byte {
+      if (!dynamic) return size;
+      return arg instanceof Buffer
+        ? sizeAt(arg, offset)
+        : sizeOfValue(t as StructConstructor<any, any>, arg);
+    }
     public static toJson(buffer: Buffer): InferedDomainObject<T, TR> {
       if (buffer.length < size) throw new Error("Invalid buffer size");
-      return readStruct<T>(
-        {
-          type: t as StructConstructor<T, undefined>,
-          offset: 0,
-          size,
-        },
-        buffer,
-        0,
-        false,
-      );
+      verify(buffer, 0);
+      return dynamic
+        ? decodeStruct(t as StructConstructor<any, any>, buffer, 0)
+        : readStruct<T>(
+            {
+              type: t as StructConstructor<T, undefined>,
+              offset: 0,
+              size,
+            },
+            buffer,
+            0,
+            false,
+          );
+    }
+    public static validate(buffer: Buffer, offset: byte = 0): Violation[] {
+      const s = t as StructConstructor<any, any>;
+      // Reported rather than thrown, like the fields that cannot be read
+      const short = lengthViolation(s, buffer, offset);
+      if (short) return [short];
+      const out = verifyChecksums(s, buffer, offset);
+      const raw = leniently(() => decodeStruct(s, buffer, offset, false, out));
+      return validateStruct(s, raw, "", out);
+    }
+    public static dump(
+      buffer: Buffer,
+      offset: byte = 0,
+      opts?: DumpOptions,
+    ): string {
+      return dumpStruct(t as StructConstructor<any, any>, buffer, offset, opts);
     }
     public static partial(args?: Partial<T>): Struct<T, TR> {
       writeData = true;
@@ -483,7 +1573,19 @@ export function struct<
       return new this(targs as T) as any;
     }
     constructor(args: T) {
-      construct(this, fields, transformers, args, this.__buff__, 0, writeData);
+      const bound = pending;
+      pending = undefined;
+      if (dynamic) {
+        this.__bind__ = observe(bound ?? encodeDynamic(args));
+        return;
+      }
+      this.__bind__ = observe(
+        bound ?? { buffer: alloc(size), offset: 0, owned: true },
+      );
+      if (writeData && !bound) {
+        construct(codecsOf(t), args, this.__bind__.buffer, 0);
+        sealStruct(t, this.__bind__.buffer, 0);
+      }
       writeData = true;
     }
     public copy(buffer: Buffer, offset?: byte, size?: byte): void;
@@ -492,27 +1594,189 @@ export function struct<
       const source: Buffer = target instanceof Buffer ? target : target.data();
       const length = source.length;
       if (s > length) throw new Error("Invalid buffer size");
-      const _size = s || length;
-      source.copy(this.__buff__, offset, 0, _size);
+      const binding = this.__bind__;
+      tracked(
+        binding,
+        "",
+        t,
+        () => rawAt(binding),
+        () => {
+          const { buffer, offset: base, owned } = binding;
+          // An owned dynamic instance takes the whole record
+          if (dynamic && owned && offset === 0 && !s) {
+            const end = sizeAt(source, 0);
+            binding.buffer = Buffer.from(source.subarray(0, end));
+            return;
+          }
+          const _size = Math.min(s || length, sizeAt(buffer, base) - offset);
+          source.copy(buffer, base + offset, 0, _size);
+        },
+      );
     }
     public data() {
-      return this.__buff__;
+      const { buffer, offset, owned } = this.__bind__;
+      // Borrowed memory is returned as is
+      if (owned) sealStruct(t as StructConstructor<any, any>, buffer, offset);
+      const s = sizeAt(buffer, offset);
+      return offset === 0 && buffer.length === s
+        ? buffer
+        : buffer.subarray(offset, offset + s);
     }
     public reset() {
-      this.__buff__.fill(0);
-    }
-    public toJson(): T {
-      return readStruct<T>(
-        {
-          type: t as StructConstructor<any, any>,
-          offset: 0,
-          size,
+      const binding = this.__bind__;
+      tracked(
+        binding,
+        "",
+        t,
+        () => rawAt(binding),
+        () => {
+          const { buffer, offset, owned } = binding;
+          if (dynamic && owned) binding.buffer = alloc(size);
+          else buffer.fill(0, offset, offset + sizeAt(buffer, offset));
         },
-        this.__buff__,
-        0,
-        false,
       );
     }
+    public rebind(offset: byte): this;
+    public rebind(buffer: BufferLike, offset?: byte): this;
+    public rebind(arg: any, offset: byte = 0): this {
+      const buffer =
+        typeof arg === "number" ? this.__bind__.buffer : toBuffer(arg);
+      const o = typeof arg === "number" ? arg : offset;
+      if (o < 0 || o + sizeAt(buffer, o) > buffer.length)
+        throw new Error("Invalid buffer size");
+      const bind = this.__bind__;
+      bind.owned = bind.owned && bind.buffer === buffer && o === 0;
+      bind.buffer = buffer;
+      bind.offset = o;
+      return this;
+    }
+    public typedArray(key: keyof T & string): TypedArray | undefined {
+      const field = fields[key];
+      if (
+        !field ||
+        !isArrayDataType(field.type) ||
+        typeof field.type[0] !== "number"
+      )
+        throw new Error(`${key} is not a numeric array`);
+      const { buffer, offset } = this.__bind__;
+      const at = dynamic
+        ? layout(t as StructConstructor<any, any>, buffer, offset).offsets[key]!
+        : offset + field.offset;
+      return typedArray(field.type as NumericArrayDataType, buffer, at);
+    }
+    public validate(): Violation[] {
+      const { buffer, offset } = this.__bind__;
+      return t.validate(buffer, offset);
+    }
+    public seal(): void {
+      const { buffer, offset } = this.__bind__;
+      sealStruct(t as StructConstructor<any, any>, buffer, offset);
+    }
+    public diff(target: Struct<T, TR> | Buffer): Change[] {
+      return diffStruct(
+        t as StructConstructor<any, any>,
+        leniently(() => rawOf(this as any)),
+        leniently(() => rawOf(target)),
+      );
+    }
+    public delta(target: Struct<T, TR> | Buffer): Buffer {
+      return encodeDelta(
+        t as StructConstructor<any, any>,
+        rawOf(this as any),
+        rawOf(target),
+      );
+    }
+    public patch(delta: Buffer): this {
+      const s = t as StructConstructor<any, any>;
+      const { buffer, offset, owned } = this.__bind__;
+      const raw = decodeDelta(s, decodeStruct(s, buffer, offset, false), delta);
+      const out = alloc(sizeOfValue(s, raw, false));
+      encodeStruct(s, raw, out, 0, false);
+      if (dynamic && !owned && out.length !== sizeAt(buffer, offset))
+        throw new Error("Cannot resize a view");
+      this.copy(out);
+      return this;
+    }
+    public dump(opts?: DumpOptions): string {
+      const { buffer, offset } = this.__bind__;
+      return t.dump(buffer, offset, opts);
+    }
+    public isDirty(path?: string): boolean {
+      const binding = this.__bind__;
+      return trackerOf(binding).isDirty(binding.path ?? "", path);
+    }
+    public dirtyFields(): string[] {
+      const binding = this.__bind__;
+      return trackerOf(binding).dirtyFields(binding.path ?? "");
+    }
+    public clearDirty(): void {
+      const binding = this.__bind__;
+      trackerOf(binding).clear(binding.path ?? "");
+    }
+    public subscribe(listener: ChangeListener): () => void;
+    public subscribe(path: string, listener: ChangeListener): () => void;
+    public subscribe(arg: any, listener?: ChangeListener): () => void {
+      const binding = this.__bind__;
+      return typeof arg === "function"
+        ? trackerOf(binding).subscribe(binding.path ?? "", "", arg)
+        : trackerOf(binding).subscribe(binding.path ?? "", arg, listener!);
+    }
+    // console.log shows the fields rather than the accessors
+    public [inspect.custom](_depth: byte, options: object): string {
+      return inspect(this.toJson(), options);
+    }
+    public toJson(): T {
+      const { buffer, offset } = this.__bind__;
+      return dynamic
+        ? decodeStruct(t as StructConstructor<any, any>, buffer, offset)
+        : readStruct<T>(
+            {
+              type: t as StructConstructor<any, any>,
+              offset: 0,
+              size,
+            },
+            buffer,
+            offset,
+            false,
+          );
+    }
   } as any as StructConstructor<T>;
+  const encodeDynamic = (args: DomainObject): Binding => {
+    const s = t as StructConstructor<any, any>;
+    const buffer = alloc(sizeOfValue(s, args));
+    encodeStruct(s, args, buffer, 0);
+    // Only the given fields are checked
+    const [violation] = validateStruct(
+      s,
+      decodeStruct(s, buffer, 0, false),
+    ).filter((v) => args[v.path.split(/[.[]/)[0]!] !== undefined);
+    if (violation) throw new Error(`${violation.path}: ${violation.message}`);
+    // Constants are written even if not given
+    const { offsets } = layout(s, buffer, 0);
+    for (const [k, c] of Object.entries(constraints as Constraints<any>)) {
+      const field = fields[k as keyof T];
+      if (args[k] !== undefined || c?.const === undefined || !field) continue;
+      const at = offsets[k]! - field.offset;
+      if (isArrayDataType(field.type))
+        writeArray(
+          field as AlignedData<ArrayDataType>,
+          c.const as any,
+          buffer,
+          at,
+        );
+      else write(field, buffer, c.const as any, at);
+    }
+    sealStruct(s, buffer, 0);
+    return { buffer, offset: 0, owned: true };
+  };
+  // Accessors are defined once, on the prototype
+  if (dynamic) {
+    for (const [k, field] of Object.entries(fields) as [string, AlignedData][])
+      if (!isReservedDataType(field.type))
+        Object.defineProperty(t.prototype, k, dynamicProperty(t, k, counts));
+  } else
+    for (const codec of codecsOf(t))
+      Object.defineProperty(t.prototype, codec.key, fieldProperty(codec));
+  assertChecksums(t as StructConstructor<any, any>);
   return t;
 }
@@ -0,0 +1,89 @@
+import type { Change } from "./delta.js";
+
+export type ChangeListener = (change: Change) => void;
+
+interface Subscription {
+  readonly path: string;
+  /**
+   * Path of the struct the listener was subscribed from
+   */
+  readonly scope: string;
+  readonly listener: ChangeListener;
+}
+
+export function joinPath(path: string, key: string): string {
+  return path && key ? `${path}.${key}` : path || key;
+}
+
+/**
+ * Whether path is scope or one of its fields or items.
+ */
+function within(path: string, scope: string): boolean {
+  return (
+    !scope ||
+    path === scope ||
+    path.startsWith(`${scope}.`) ||
+    path.startsWith(`${scope}[`)
+  );
+}
+
+function relative(path: string, scope: string): string {
+  return scope ? path.slice(scope.length).replace(/^\./, "") : path;
+}
+
+/**
+ * Records the changed fields of an observable instance and notifies the
+ * listeners of their changes. Nested structs of the instance share its
+ * tracker, scoped to their path.
+ */
+export class Tracker {
+  /**
+   * Paths of the changed fields, in order of first change
+   */
+  private readonly dirty = new Set<string>();
+  private readonly subscriptions = new Set<Subscription>();
+
+  /**
+   * Marks the fields of changes dirty and notifies their listeners.
+   * @param changes Paths are from the observable instance
+   */
+  public record(changes: Change[]): void {
+    for (const change of changes) {
+      this.dirty.add(change.path);
+      // Listeners may unsubscribe while notified
+      for (const s of [...this.subscriptions])
+        if (within(change.path, s.path))
+          s.listener({ ...change, path: relative(change.path, s.scope) });
+    }
+  }
+
+  public isDirty(scope: string, path: string = ""): boolean {
+    const target = joinPath(scope, path);
+    for (const p of this.dirty) if (within(p, target)) return true;
+    return false;
+  }
+
+  public dirtyFields(scope: string): string[] {
+    return [...this.dirty]
+      .filter((p) => within(p, scope))
+      .map((p) => relative(p, scope));
+  }
+
+  public clear(scope: string): void {
+    for (const p of this.dirty) if (within(p, scope)) this.dirty.delete(p);
+  }
+
+  /**
+   * Calls listener on every change of the field at path, or inside it.
+   * Returns a function removing the listener.
+   */
+  public subscribe(
+    scope: string,
+    path: string,
+    listener: ChangeListener,
+  ): () => void {
+    const subscription = { path: joinPath(scope, path), scope, listener };
+    this.subscriptions.add(subscription);
+    return () => void this.subscriptions.delete(subscription);
+  }
+}
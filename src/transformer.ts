@@ -1,4 +1,11 @@
-import type { BindedType, DataValue, DomainObject } from "./type.js";
+import { toBytes, toString } from "./memory.js";
+import type {
+  BindedType,
+  byte,
+  bytes,
+  DataValue,
+  DomainObject,
+} from "./type.js";
 
 export type Transformer<T, R> = (data: T) => R;
 
@@ -10,6 +17,43 @@ export type Transformers<T extends DomainObject> = Partial<{
   [K in keyof T]: PropertyTransformer;
 }>;
 
+declare const codecTypes: unique symbol;
+declare const codecBrand: unique symbol;
+
+/**
+ * A transformer between the raw value of a field, R, and the value exposed
+ * by instances, D. Unlike plain transformers, the types of its steps are
+ * checked: build codecs with `codec` and chain them with `pipe`. Codecs are
+ * branded so that plain transformers, whose steps are unchecked, are not
+ * accepted in their place.
+ */
+export interface Codec<R, D> extends PropertyTransformer {
+  readonly input: Transformer<any, any>[];
+  readonly output: Transformer<any, any>[];
+  readonly [codecTypes]?: readonly [R, D];
+  readonly [codecBrand]: true;
+}
+
+/**
+ * Transformers whose codecs, if any, read and write the raw type of their field.
+ */
+export type TypedTransformers<T extends DomainObject> = {
+  [K in keyof T]?: PropertyTransformer & {
+    readonly [codecTypes]?: readonly [BindedType<T>[K], unknown];
+  };
+};
+
+/**
+ * The value exposed for a field transformed by C: the domain type of codecs,
+ * or the declared type T[K] for plain transformers.
+ */
+type Transformed<T extends DomainObject, K extends keyof T, C> =
+  NonNullable<C> extends { readonly [codecTypes]?: readonly [any, infer D] }
+    ? unknown extends D
+      ? T[K]
+      : D
+    : T[K];
+
 export type PickTransformers<
   T extends DomainObject,
   K extends keyof T,
@@ -23,7 +67,7 @@ export type ApplyTransformers<
   [K in keyof T]: TR extends undefined
     ? B[K]
     : K extends keyof TR
-      ? T[K]
+      ? Transformed<T, K, TR[K]>
       : B[K];
 };
 
@@ -40,3 +84,186 @@ export function applyTransform(
 ) {
   return transformer && transformer.length ? transform(v, transformer) : v;
 }
+
+/**
+ * Transformers registered by name, so schemas can reference them.
+ */
+export class TransformerRegistry {
+  private readonly byName = new Map<string, PropertyTransformer>();
+
+  constructor(entries: Record<string, PropertyTransformer> = {}) {
+    for (const [name, transformer] of Object.entries(entries))
+      this.register(name, transformer);
+  }
+  /**
+   * Registers transformer as name.
+   * @param name
+   * @param transformer
+   */
+  public register(name: string, transformer: PropertyTransformer): this {
+    if (this.byName.has(name)) throw new Error(`Duplicate transformer ${name}`);
+    this.byName.set(name, transformer);
+    return this;
+  }
+  /**
+   * Returns the transformer registered as name.
+   * @param name
+   */
+  public get(name: string): PropertyTransformer {
+    const transformer = this.byName.get(name);
+    if (!transformer) throw new Error(`Unknown transformer ${name}`);
+    return transformer;
+  }
+  /**
+   * Returns the name of transformer, if registered.
+   * @param transformer
+   */
+  public nameOf(transformer: PropertyTransformer): string | undefined {
+    for (const [name, t] of this.byName) if (t === transformer) return name;
+    return undefined;
+  }
+}
+
+/**
+ * The default registry: `string` converts UTF-8 strings and `hex` hex strings to bytes.
+ */
+export const transformers = new TransformerRegistry({
+  string: {
+    input: [(data: string) => toBytes(data)],
+    output: [(data: bytes) => toString(data)],
+  },
+  hex: {
+    input: [(data: string) => toBytes(data, true)],
+    output: [(data: bytes) => toString(data, true)],
+  },
+});
+
+/**
+ * Returns a codec writing input(value) and reading output(raw).
+ * @param steps
+ */
+export function codec<R, D>(steps: {
+  readonly input: Transformer<D, R>;
+  readonly output: Transformer<R, D>;
+}): Codec<R, D> {
+  return Object.freeze({
+    input: [steps.input],
+    output: [steps.output],
+  }) as Codec<R, D>;
+}
+
+/**
+ * Chains codecs from the raw value to the exposed one: the domain type of
+ * each codec is the raw type of the next.
+ */
+export function pipe<A, B, C>(a: Codec<A, B>, b: Codec<B, C>): Codec<A, C>;
+export function pipe<A, B, C, D>(
+  a: Codec<A, B>,
+  b: Codec<B, C>,
+  c: Codec<C, D>,
+): Codec<A, D>;
+export function pipe<A, B, C, D, E>(
+  a: Codec<A, B>,
+  b: Codec<B, C>,
+  c: Codec<C, D>,
+  d: Codec<D, E>,
+): Codec<A, E>;
+export function pipe(...steps: Codec<any, any>[]): Codec<any, any> {
+  return Object.freeze({
+    // Values are written through the last codec first
+    input: [...steps].reverse().flatMap((c) => c.input),
+    output: steps.flatMap((c) => c.output),
+  }) as Codec<any, any>;
+}
+
+function hex(): Codec<bytes, string> {
+  return codec({
+    input: (data: string) => {
+      if (!/^(?:[0-9a-fA-F]{2})*$/.test(data))
+        throw new Error(`hex: invalid string ${JSON.stringify(data)}`);
+      return toBytes(data, true);
+    },
+    output: (data: bytes) => toString(data, true),
+  });
+}
+
+/**
+ * @param length Size of the field, for fixed-size arrays. Shorter strings are
+ * zero-padded, and trailing zeros are stripped when read
+ */
+function utf8(length?: byte): Codec<bytes, string> {
+  return codec({
+    input: (data: string) => {
+      const out = toBytes(data);
+      if (length === undefined) return out;
+      if (out.length > length)
+        throw new Error(
+          `utf8: string of ${out.length} bytes exceeds ${length}`,
+        );
+      while (out.length < length) out.push(0);
+      return out;
+    },
+    output: (data: bytes) => {
+      const s = toString(data);
+      return length === undefined ? s : s.replace(/\0+$/, "");
+    },
+  });
+}
+
+/**
+ * Exposes raw * factor + offset, written rounded to the nearest integer.
+ * @param factor Like 0.1 for tenths
+ * @param offset
+ */
+function scaled(factor: number, offset: number = 0): Codec<byte, number> {
+  if (!Number.isFinite(factor) || factor === 0)
+    throw new RangeError(`Invalid factor ${factor}`);
+  return codec({
+    input: (value: number) => {
+      if (!Number.isFinite(value))
+        throw new Error(`scaled: value ${value} is not finite`);
+      return Math.round((value - offset) / factor);
+    },
+    // Drops the floating point error of the product, like 0.30000000000000004
+    output: (raw: byte) => Number((raw * factor + offset).toPrecision(15)),
+  });
+}
+
+/**
+ * Exposes seconds or milliseconds since the Unix epoch as a Date. Fractions of
+ * a second are dropped when writing seconds.
+ * @param unit
+ */
+function date(unit?: "s" | "ms"): Codec<byte, Date>;
+function date(unit: "s" | "ms", raw: "bigint"): Codec<bigint, Date>;
+function date(unit: "s" | "ms" = "s", raw?: "bigint"): Codec<any, Date> {
+  const ms = unit === "s" ? 1000 : 1;
+  return codec({
+    input: (value: Date) => {
+      const time = value instanceof Date ? value.getTime() : NaN;
+      if (Number.isNaN(time)) throw new Error("date: invalid date");
+      const out = Math.floor(time / ms);
+      return raw === "bigint" ? BigInt(out) : out;
+    },
+    output: (value: byte | bigint) => new Date(Number(value) * ms),
+  });
+}
+
+/**
+ * Exposes 0 as false and any other value as true, written as 1.
+ */
+function boolean(): Codec<byte, boolean> {
+  return codec({
+    input: (value: boolean) => {
+      if (typeof value !== "boolean")
+        throw new Error("boolean: value is not a boolean");
+      return value ? 1 : 0;
+    },
+    output: (raw: byte) => raw !== 0,
+  });
+}
+
+/**
+ * Reusable codecs.
+ */
+export const codecs = { hex, utf8, scaled, date, boolean };
@@ -1,7 +1,9 @@
+import { alloc, sizeof, write } from "./memory.js";
 import { type StructConstructor } from "./structure.js";
 import type { Transformers } from "./transformer.js";
 export type byte = number;
 export type bytes = byte[];
+export type BufferLike = Buffer | ArrayBuffer | SharedArrayBuffer;
 
 export enum DataType {
   INT8 = 0,
@@ -22,68 +24,516 @@ export enum DataType {
   FLOAT32BE,
   FLOAT64LE,
   FLOAT64BE,
+  /**
+   * IEEE 754 half precision
+   */
+  FLOAT16LE,
+  FLOAT16BE,
+  INT24LE,
+  INT24BE,
+  UINT24LE,
+  UINT24BE,
+  /**
+   * Signed fixed-point, 1 sign bit and 15 fraction bits in an INT16
+   */
+  Q15LE,
+  Q15BE,
+  /**
+   * Signed fixed-point, 1 sign bit and 31 fraction bits in an INT32
+   */
+  Q31LE,
+  Q31BE,
+  /**
+   * Signed fixed-point, 16 integer bits and 16 fraction bits in an INT32
+   */
+  Q16_16LE,
+  Q16_16BE,
 }
 export type BigIntDataType =
   | DataType.INT64LE
   | DataType.INT64BE
   | DataType.UINT64LE
   | DataType.UINT64BE;
+export type FloatDataType =
+  | DataType.FLOAT16LE
+  | DataType.FLOAT16BE
+  | DataType.FLOAT32LE
+  | DataType.FLOAT32BE
+  | DataType.FLOAT64LE
+  | DataType.FLOAT64BE;
+/**
+ * Fixed-point types, read and written as numbers rounded to their resolution.
+ */
+export type FixedPointDataType =
+  | DataType.Q15LE
+  | DataType.Q15BE
+  | DataType.Q31LE
+  | DataType.Q31BE
+  | DataType.Q16_16LE
+  | DataType.Q16_16BE;
+export type IntegerDataType = Exclude<
+  DataType,
+  FloatDataType | FixedPointDataType
+>;
+export interface BitfieldDataType<T extends IntegerDataType = IntegerDataType> {
+  readonly type: T;
+  readonly bits: byte;
+  /**
+   * Unnamed bitfield, like `uint8_t : 3;`: zero-filled and hidden from instances and `toJson`
+   */
+  readonly reserved?: true;
+}
+/**
+ * Reserved bytes, zero-filled and hidden from instances and `toJson`.
+ */
+export interface PaddingDataType {
+  readonly padding: byte;
+}
+/**
+ * What reading a value that is not a member of an enum returns: an error, the
+ * number, or the fallback member. With `"throw"`, dumps, diffs and validate
+ * read the number.
+ */
+export type UnknownEnumValue<E extends string = string> =
+  | "throw"
+  | "raw"
+  | { readonly fallback: E };
+/**
+ * An integer exposed as the name of its member.
+ */
+export interface EnumDataType<E extends string = string> {
+  readonly type: Exclude<IntegerDataType, BigIntDataType>;
+  readonly enum: Readonly<Record<E, byte>>;
+  readonly unknown: UnknownEnumValue<E>;
+}
+export type FlagsStorageDataType =
+  | DataType.UINT8
+  | DataType.UINT16LE
+  | DataType.UINT16BE
+  | DataType.UINT24LE
+  | DataType.UINT24BE
+  | DataType.UINT32LE
+  | DataType.UINT32BE;
+const flagsStorageDataTypes: ReadonlySet<DataType> = new Set([
+  DataType.UINT8,
+  DataType.UINT16LE,
+  DataType.UINT16BE,
+  DataType.UINT24LE,
+  DataType.UINT24BE,
+  DataType.UINT32LE,
+  DataType.UINT32BE,
+]);
+declare const flagNames: unique symbol;
+declare const text: unique symbol;
+/**
+ * The value of a string field. Plain `string` fields hold bytes.
+ */
+export type Text = string & { readonly [text]?: never };
+export type StringEncoding = "utf8" | "ascii" | "latin1" | "utf16le" | "hex";
+/**
+ * How a string shorter than its field ends:
+ * - `"null"`: a `\0` terminator, always stored. Reading stops at the first `\0`
+ * - `"zero"`: zero bytes, stripped when read
+ * - `"space"`: spaces, stripped when read along with trailing zeros
+ */
+export type StringTermination = "null" | "zero" | "space";
+/**
+ * A fixed-size string.
+ */
+export interface StringDataType {
+  /**
+   * Size in bytes
+   */
+  readonly length: byte;
+  readonly encoding: StringEncoding;
+  readonly termination: StringTermination;
+  /**
+   * What writing a string too long for the field does. Truncation keeps whole
+   * code points
+   */
+  readonly overflow: "throw" | "truncate";
+}
+/**
+ * The flags of a flags field, by name. Instances expose them as an object
+ * writing each bit in place.
+ */
+export type Flags<F extends string> = { [K in F]: boolean } & {
+  readonly [flagNames]?: F;
+};
+/**
+ * Named bits of an unsigned integer.
+ */
+export interface FlagsDataType<F extends string = string> {
+  readonly type: FlagsStorageDataType;
+  /**
+   * Position of every flag, from the LSB
+   */
+  readonly flags: Readonly<Record<F, byte>>;
+  /**
+   * Whether the field is read as a boolean map or as the list of set flags
+   */
+  readonly format: "map" | "names";
+}
 export type NumericArrayDataType = [type: DataType, size: byte];
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | BigInt64Array
+  | BigUint64Array
+  | Float32Array
+  | Float64Array;
 export type StructArrayDataType<T extends Record<string, any>> = [
   type: StructConstructor<T>,
   size: byte,
 ];
+/**
+ * Array of arrays, like a multi-dimensional C array.
+ */
+export type NestedArrayDataType<T = ArrayDataType> = [type: T, size: byte];
+
+export type LengthPrefixDataType =
+  | DataType.UINT8
+  | DataType.UINT16LE
+  | DataType.UINT16BE
+  | DataType.UINT32LE
+  | DataType.UINT32BE;
+export interface LengthPrefix {
+  readonly prefix: LengthPrefixDataType;
+}
+/**
+ * Item count of a variable-length array: the name of a preceding sibling field or a length prefix.
+ */
+export type DynamicLength<T extends DomainObject = DomainObject> =
+  | (keyof T & string)
+  | LengthPrefix;
+export type DynamicNumericArrayDataType<T extends DomainObject = DomainObject> =
+  [type: DataType, length: DynamicLength<T>];
+export type DynamicStructArrayDataType<
+  P extends DomainObject,
+  T extends DomainObject = DomainObject,
+> = [type: StructConstructor<P>, length: DynamicLength<T>];
 
 export type DomainObject = Record<string, any>;
+export type UnionMember<U extends DomainObject> = U extends DomainObject
+  ? StructConstructor<U, undefined | Transformers<U>>
+  : never;
+/**
+ * A field holding one of several structs, selected by the value of the tag field.
+ */
+export interface UnionDataType<
+  U extends DomainObject = DomainObject,
+  D extends string = string,
+> {
+  readonly tag: D;
+  readonly members: Readonly<Record<number, UnionMember<U>>>;
+}
 export type InferArray<T extends any> = T extends byte
   ? NumericArrayDataType
-  : T extends DomainObject
-    ? StructArrayDataType<T>
+  : T extends readonly (infer P)[]
+    ? NestedArrayDataType<InferArray<P>>
+    : T extends DomainObject
+      ? StructArrayDataType<T>
+      : never;
+export type InferDynamicArray<
+  P extends any,
+  T extends DomainObject,
+> = P extends byte
+  ? DynamicNumericArrayDataType<T>
+  : P extends DomainObject
+    ? DynamicStructArrayDataType<P, T>
     : never;
 export type ArrayDataType =
   | NumericArrayDataType
-  | StructArrayDataType<DomainObject>;
+  | StructArrayDataType<DomainObject>
+  | [type: ArrayDataType, size: byte];
+export type DynamicArrayDataType =
+  | DynamicNumericArrayDataType
+  | DynamicStructArrayDataType<DomainObject>;
 
-export type Type = DataType | ArrayDataType | StructConstructor<any, any>;
+export type Type =
+  | DataType
+  | ArrayDataType
+  | DynamicArrayDataType
+  | BitfieldDataType
+  | UnionDataType<any>
+  | PaddingDataType
+  | EnumDataType
+  | FlagsDataType
+  | StringDataType
+  | StructConstructor<any, any>;
 
 export type DataValue = byte | bytes | bigint | object;
 
+/**
+ * Whether T carries the brand, `any` excluded.
+ */
+type Branded<T, B extends symbol> = 0 extends 1 & T
+  ? false
+  : B extends keyof T
+    ? true
+    : false;
 export type BindedType<T extends Record<string, any>> = {
+  // String literals are enum members, Text is a string, other strings are bytes
   [K in keyof T]: T[K] extends string
-    ? bytes
+    ? Branded<T[K], typeof text> extends true
+      ? string
+      : string extends T[K]
+        ? bytes
+        : T[K]
     : T[K] extends boolean
       ? byte
       : T[K] extends DomainObject
-        ? BindedType<T[K]>
+        ? Branded<T[K], typeof flagNames> extends true
+          ? T[K]
+          : BindedType<T[K]>
         : T[K];
 };
-export type StructDefinitionDataType<T extends DomainObject> = {
-  [K in keyof T]: T[K] extends readonly (infer P)[]
-    ? InferArray<P>
-    : T[K] extends byte
-      ? DataType
-      : T[K] extends bigint
-        ? BigIntDataType
-        : T[K] extends string
-          ? NumericArrayDataType
-          : T[K] extends boolean
-            ? DataType.UINT8
-            : T[K] extends DomainObject
-              ? StructConstructor<T[K], undefined | Transformers<T[K]>>
-              : never;
+// Keys is a parameter so the mapping does not distribute over discriminated unions
+export type StructDefinitionDataType<
+  T extends DomainObject,
+  Keys extends keyof T = keyof T,
+> = {
+  [K in Keys]: T[K] extends undefined
+    ? PaddingDataType | (BitfieldDataType & { readonly reserved: true })
+    : T[K] extends readonly (infer P)[]
+      ?
+          | InferArray<P>
+          | InferDynamicArray<P, T>
+          | ([P] extends [string] ? FlagsDataType<P> : never)
+      : T[K] extends byte
+        ? DataType | BitfieldDataType<Exclude<IntegerDataType, BigIntDataType>>
+        : T[K] extends bigint
+          ? BigIntDataType | BitfieldDataType<BigIntDataType>
+          : T[K] extends string
+            ? Branded<T[K], typeof text> extends true
+              ? StringDataType
+              :
+                  | NumericArrayDataType
+                  | DynamicNumericArrayDataType<T>
+                  | EnumDataType<T[K]>
+            : T[K] extends boolean
+              ? DataType.UINT8 | BitfieldDataType<DataType.UINT8>
+              : // Enums reading unknown values as numbers
+                T[K] extends string | byte
+                ? EnumDataType<Extract<T[K], string>>
+                : T[K] extends DomainObject
+                  ? Branded<T[K], typeof flagNames> extends true
+                    ? FlagsDataType<
+                        Exclude<keyof T[K], typeof flagNames> & string
+                      >
+                    :
+                        | StructConstructor<
+                            T[K],
+                            undefined | Transformers<T[K]>
+                          >
+                        | UnionDataType<T[K], keyof T & string>
+                  : never;
 };
 export interface AlignedData<T extends Type = Type> {
   readonly type: T;
   readonly offset: byte;
   readonly size: byte;
+  /**
+   * Bitfields only. Position of the first bit inside the storage unit,
+   * counted from the LSB for LE types and from the MSB for BE types.
+   */
+  readonly bit?: byte;
+  /**
+   * Unions only. The field holding the tag.
+   */
+  readonly tag?: AlignedData;
 }
 export function isStructDataType(t: Type): t is StructConstructor {
   return typeof t === "function";
 }
 
 export function isArrayDataType(t: Type): t is ArrayDataType {
-  return Array.isArray(t);
+  return Array.isArray(t) && typeof t[1] === "number";
+}
+
+export function isDynamicArrayDataType(t: Type): t is DynamicArrayDataType {
+  return Array.isArray(t) && typeof t[1] !== "number";
+}
+
+export function isBitfieldDataType(t: Type): t is BitfieldDataType {
+  return typeof t === "object" && "bits" in t;
 }
-export function charDataType(length: byte): NumericArrayDataType {
+
+export function isUnionDataType(t: Type): t is UnionDataType<any> {
+  return typeof t === "object" && "members" in t;
+}
+export function isPaddingDataType(t: Type): t is PaddingDataType {
+  return typeof t === "object" && "padding" in t;
+}
+/**
+ * Whether t is hidden from instances: padding and reserved bitfields.
+ */
+export function isReservedDataType(t: Type): boolean {
+  return isPaddingDataType(t) || (isBitfieldDataType(t) && !!t.reserved);
+}
+export function isEnumDataType(t: Type): t is EnumDataType {
+  return typeof t === "object" && "enum" in t;
+}
+export function isFlagsDataType(t: Type): t is FlagsDataType {
+  return typeof t === "object" && "flags" in t;
+}
+export function isStringDataType(t: Type): t is StringDataType {
+  return typeof t === "object" && "encoding" in t;
+}
+export function charDataType(length: byte): NumericArrayDataType;
+export function charDataType<L extends string | LengthPrefix>(
+  length: L,
+): [type: DataType.UINT8, length: L];
+export function charDataType(length: byte | string | LengthPrefix) {
   return [DataType.UINT8, length];
 }
+/**
+ * Declares the item count prefix of a variable-length array.
+ * @param prefix Defaults to UINT8
+ */
+export function lengthPrefix(
+  prefix: LengthPrefixDataType = DataType.UINT8,
+): LengthPrefix {
+  return Object.freeze({ prefix });
+}
+/**
+ * Declares a bitfield of `bits` width stored in a unit of `type`, like `uint8_t mode : 3;`.
+ * @param type
+ * @param bits
+ * @param opts `reserved` declares an unnamed bitfield, like `uint8_t : 3;`
+ */
+export function bitfieldDataType<T extends IntegerDataType>(
+  type: T,
+  bits: byte,
+  opts: { readonly reserved: true },
+): BitfieldDataType<T> & { readonly reserved: true };
+export function bitfieldDataType<T extends IntegerDataType>(
+  type: T,
+  bits: byte,
+  opts?: { readonly reserved?: boolean },
+): BitfieldDataType<T>;
+export function bitfieldDataType<T extends IntegerDataType>(
+  type: T,
+  bits: byte,
+  opts: { readonly reserved?: boolean } = {},
+): BitfieldDataType<T> {
+  const width = sizeof(type) * 8;
+  if (!Number.isInteger(bits) || bits < 1 || bits > width)
+    throw new Error(`Invalid bitfield width ${bits}, expected [1, ${width}]`);
+  return Object.freeze(
+    opts.reserved ? { type, bits, reserved: true as const } : { type, bits },
+  );
+}
+/**
+ * Declares `size` reserved bytes, like `uint8_t reserved[size];`, that are not exposed as a field.
+ * @param size
+ */
+export function paddingDataType(size: byte): PaddingDataType {
+  if (!Number.isInteger(size) || size < 1)
+    throw new Error(`Invalid padding size ${size}`);
+  return Object.freeze({ padding: size });
+}
+/**
+ * Declares an integer field exposed as the names of its members, like a C `enum`.
+ * Numeric TypeScript enums can be given as members.
+ * @param type
+ * @param members The value of each name
+ * @param opts What reading a value that is not a member does. Defaults to `"throw"`
+ */
+export function enumDataType<E extends string>(
+  type: Exclude<IntegerDataType, BigIntDataType>,
+  members: Readonly<Record<E, byte | string>>,
+  opts: { readonly unknown?: UnknownEnumValue<NoInfer<E>> } = {},
+): EnumDataType<E> {
+  const values: Record<string, byte> = {};
+  const seen = new Set<byte>();
+  // Numeric TypeScript enums map values back to names as well
+  for (const [k, v] of Object.entries(members))
+    if (typeof v === "number") {
+      write({ type, offset: 0, size: sizeof(type) }, alloc(8), v, 0);
+      if (seen.has(v)) throw new Error(`Duplicate enum value ${v}`);
+      seen.add(v);
+      values[k] = v;
+    }
+  if (!seen.size) throw new Error("Empty enum");
+  const unknown = opts.unknown ?? "throw";
+  if (typeof unknown === "object" && !(unknown.fallback in values))
+    throw new Error(`Unknown enum member ${unknown.fallback}`);
+  return Object.freeze({
+    type,
+    enum: Object.freeze(values) as Record<E, byte>,
+    unknown,
+  });
+}
+/**
+ * Declares a string of `length` bytes, read and written as a `string`.
+ * @param length
+ * @param opts Defaults to a null-terminated UTF-8 string throwing on overflow
+ */
+export function stringDataType(
+  length: byte,
+  opts: Partial<Omit<StringDataType, "length">> = {},
+): StringDataType {
+  const { encoding = "utf8", termination = "null", overflow = "throw" } = opts;
+  if (!["utf8", "ascii", "latin1", "utf16le", "hex"].includes(encoding))
+    throw new Error(`Unknown encoding ${encoding}`);
+  // UTF-16 strings are made of 2-byte units, terminator included
+  const unit = encoding === "utf16le" ? 2 : 1;
+  if (!Number.isInteger(length) || length < unit || length % unit)
+    throw new Error(`Invalid string length ${length}`);
+  return Object.freeze({ length, encoding, termination, overflow });
+}
+/**
+ * Declares named bits of an unsigned integer, exposed as booleans.
+ * @param type
+ * @param flags The position of each flag, from the LSB
+ * @param opts `format: "names"` reads the field as the list of set flags. Defaults to a boolean map
+ */
+export function flagsDataType<F extends string>(
+  type: FlagsStorageDataType,
+  flags: Readonly<Record<F, byte>>,
+  opts: { readonly format?: "map" | "names" } = {},
+): FlagsDataType<F> {
+  if (!flagsStorageDataTypes.has(type))
+    throw new Error("Flags require an unsigned type of up to 32 bits");
+  const bits = sizeof(type) * 8;
+  const seen = new Set<byte>();
+  for (const [k, b] of Object.entries(flags) as [string, byte][]) {
+    if (!Number.isInteger(b) || b < 0 || b >= bits)
+      throw new Error(`Invalid bit ${b} of flag ${k}, expected [0, ${bits})`);
+    if (seen.has(b)) throw new Error(`Duplicate flag bit ${b}`);
+    seen.add(b);
+  }
+  if (!seen.size) throw new Error("No flags");
+  return Object.freeze({
+    type,
+    flags: Object.freeze({ ...flags }),
+    format: opts.format ?? "map",
+  });
+}
+/**
+ * Declares a union of structs, like a C `union`, whose active member is selected by the value of the tag field.
+ * @param tag The name of a preceding integer field
+ * @param members The struct of each tag value
+ */
+export function unionDataType<
+  D extends string,
+  M extends Record<number, StructConstructor<any, any>>,
+>(
+  tag: D,
+  members: M,
+): UnionDataType<
+  M[keyof M] extends StructConstructor<infer U, any> ? U : never,
+  D
+> {
+  for (const k of Object.keys(members))
+    if (!Number.isInteger(Number(k))) throw new Error(`Invalid union tag ${k}`);
+  return Object.freeze({
+    tag,
+    members: Object.freeze({ ...members }),
+  }) as UnionDataType<any, D>;
+}
@@ -0,0 +1,309 @@
+import { read } from "./memory.js";
+import type { StructConstructor } from "./structure.js";
+import type { byte, DomainObject } from "./type.js";
+
+/**
+ * Changes from the previous version, of domain type From, to the version it
+ * is declared for, of domain type To.
+ * Fields keeping their name are copied, so widened fields need no mapping.
+ */
+export interface Migration<
+  From extends DomainObject = DomainObject,
+  To extends DomainObject = DomainObject,
+> {
+  /**
+   * New name of the renamed fields, by previous name
+   */
+  readonly rename?: Readonly<
+    Partial<Record<keyof From & string, keyof To & string>>
+  >;
+  /**
+   * Value of the added fields
+   */
+  readonly add?: Readonly<Partial<To>>;
+  /**
+   * Fields dropped by the version
+   */
+  readonly remove?: readonly (keyof From & string)[];
+  /**
+   * Custom conversion, applied after the mappings
+   */
+  readonly convert?: (value: DomainObject) => To;
+  /**
+   * Inverse of convert, applied before the mappings when migrating down
+   */
+  readonly revert?: (value: To) => DomainObject;
+}
+
+type Versions = Readonly<Record<number, StructConstructor<any, any>>>;
+
+type Version<S extends Versions> = keyof S & number;
+
+type InstanceOf<C> = C extends new (args: any) => infer I ? I : never;
+
+type DomainOf<C> = C extends new (args: infer T) => unknown
+  ? T extends DomainObject
+    ? T
+    : DomainObject
+  : DomainObject;
+
+/**
+ * The version numbers of K small enough to be counted up to: integers below 100
+ */
+type Small<K extends number> = K extends unknown
+  ? `${K}` extends
+      | `-${string}`
+      | `${string}.${string}`
+      | `${string}e${string}`
+      | `${number}${number}${number}`
+    ? never
+    : K
+  : never;
+
+type Counted<K extends number> = number extends K
+  ? false
+  : [Exclude<K, Small<K>>] extends [never]
+    ? true
+    : false;
+
+/**
+ * The highest of the version numbers K, counting up to it
+ */
+type Highest<
+  K extends number,
+  C extends unknown[] = [],
+  L extends number = never,
+> = [K] extends [never]
+  ? L
+  : C["length"] extends K
+    ? Highest<Exclude<K, C["length"]>, [...C, unknown], C["length"]>
+    : Highest<K, [...C, unknown], L>;
+
+/**
+ * The highest of the version numbers K below V, never for the first one
+ */
+type Previous<
+  K extends number,
+  V extends number,
+  C extends unknown[] = [],
+  P extends number = never,
+> = C["length"] extends V
+  ? P
+  : Previous<K, V, [...C, unknown], C["length"] extends K ? C["length"] : P>;
+
+/**
+ * The latest version of S, or any of them when they cannot be counted
+ */
+type Latest<S extends Versions> =
+  Counted<Version<S>> extends true ? Highest<Version<S>> : Version<S>;
+
+type PreviousDomain<S extends Versions, V extends Version<S>> =
+  Counted<Version<S>> extends true
+    ? [Previous<Version<S>, V>] extends [never]
+      ? DomainObject
+      : DomainOf<S[Previous<Version<S>, V>]>
+    : DomainObject;
+
+/**
+ * Migration to each version from the previous one
+ */
+export type Migrations<S extends Versions = Versions> = {
+  readonly [V in keyof S]?: Migration<
+    PreviousDomain<S, V & Version<S>>,
+    DomainOf<S[V]>
+  >;
+};
+
+/**
+ * How the version of a payload is detected:
+ * - `{ field }`: a header field holding the version number
+ * - `"size"`: the payload size, the largest version fitting in the buffer
+ * - a function returning the version number
+ */
+export type VersionDetector =
+  | { readonly field: string }
+  | "size"
+  | ((buffer: Buffer, offset: byte) => number);
+
+export interface VersionOptions<S extends Versions = Versions> {
+  readonly detect: VersionDetector;
+  /**
+   * Migration to each version from the previous one
+   */
+  readonly migrations?: Migrations<S>;
+}
+
+/**
+ * The versions of a struct, with the migrations between them. The types of
+ * the versions and of the migrations are inferred from structs.
+ */
+export class VersionedStruct<S extends Versions = Versions> {
+  /**
+   * Version numbers, ascending
+   */
+  public readonly versions: readonly Version<S>[];
+  public readonly latest: Latest<S>;
+  private readonly structs: Map<number, StructConstructor<any, any>>;
+
+  /**
+   * @param structs The struct of each version number. The highest is the latest
+   * @param opts
+   */
+  constructor(
+    structs: S,
+    private readonly opts: VersionOptions<S>,
+  ) {
+    this.structs = new Map(
+      Object.entries(structs).map(([v, s]) => [Number(v), s]),
+    );
+    this.versions = [...this.structs.keys()].sort(
+      (a, b) => a - b,
+    ) as Version<S>[];
+    for (const v of this.versions)
+      if (!Number.isInteger(v)) throw new Error(`Invalid version ${v}`);
+    if (!this.versions.length) throw new Error("No versions");
+    this.latest = this.versions[this.versions.length - 1] as Latest<S>;
+    for (const v of Object.keys(opts.migrations ?? {}))
+      if (!this.structs.has(Number(v)))
+        throw new Error(`Migration to unknown version ${v}`);
+    const { detect } = opts;
+    if (typeof detect === "object")
+      for (const [v, s] of this.structs)
+        if (!(detect.field in s.fields))
+          throw new Error(`Version ${v} has no field ${detect.field}`);
+  }
+
+  /**
+   * Returns the struct of version.
+   * @param version
+   */
+  public struct<V extends Version<S>>(version: V): S[V] {
+    const out = this.structs.get(version);
+    if (!out) throw new Error(`Unknown version ${version}`);
+    return out as S[V];
+  }
+
+  /**
+   * Returns the version of the payload at offset.
+   * @param buffer
+   * @param offset
+   */
+  public detect(buffer: Buffer, offset: byte = 0): Version<S> {
+    const { detect } = this.opts;
+    let version: number | undefined;
+    if (typeof detect === "function") version = detect(buffer, offset);
+    else if (detect === "size") {
+      // Trailing bytes are allowed, so the largest version fitting wins
+      let size = -1;
+      for (const v of this.versions) {
+        const fits = this.struct(v).size;
+        if (fits <= buffer.length - offset && fits >= size) {
+          version = v;
+          size = fits;
+        }
+      }
+    } else
+      version = this.versions.find((v) => {
+        const field = this.struct(v).fields[detect.field]!;
+        if (offset + field.offset + field.size > buffer.length) return false;
+        return Number(read(field, buffer, offset)) === v;
+      });
+    if (version === undefined || !this.structs.has(version))
+      throw new Error(`Unknown version ${version ?? "of payload"}`);
+    return version as Version<S>;
+  }
+
+  /**
+   * Migrates the plain value of version from to version to, one version at a
+   * time. The version field, if detected by one, is set to the new version.
+   * Migrating down restores renamed fields and drops added ones; removed fields are left out.
+   * @param value
+   * @param from
+   * @param to Defaults to the latest version
+   */
+  public migrate(
+    value: DomainObject,
+    from: Version<S>,
+    to: Version<S> = this.latest as Version<S>,
+  ): DomainObject {
+    this.struct(from);
+    this.struct(to);
+    let out = { ...value };
+    const migrations = (this.opts.migrations ?? {}) as Readonly<
+      Record<number, Migration | undefined>
+    >;
+    if (from < to)
+      for (const v of this.versions.filter((v) => v > from && v <= to))
+        out = up(out, migrations[v]);
+    else
+      for (const v of this.versions
+        .filter((v) => v > to && v <= from)
+        .reverse())
+        out = down(out, migrations[v]);
+    const { detect } = this.opts;
+    // The header of the new version holds its number
+    if (typeof detect === "object") out[detect.field] = to;
+    return out;
+  }
+
+  /**
+   * Reads the payload at offset, whatever its version, as an instance of the latest version.
+   * @param buffer
+   * @param offset
+   */
+  public from(buffer: Buffer, offset: byte = 0): InstanceOf<S[Latest<S>]> {
+    const version = this.detect(buffer, offset);
+    const instance = this.struct(version).from(buffer, offset);
+    if (version === this.latest) return instance;
+    return this.create(
+      this.migrate(instance.toJson(), version),
+      this.latest as Version<S>,
+    );
+  }
+
+  /**
+   * Converts an instance of one of the versions to version to.
+   * @param instance
+   * @param to Defaults to the latest version
+   */
+  public convert<V extends Version<S> = Latest<S> & Version<S>>(
+    instance: InstanceOf<S[Version<S>]>,
+    to: V = this.latest as V,
+  ): InstanceOf<S[V]> {
+    const version = this.versions.find(
+      (v) => (instance as object) instanceof this.struct(v),
+    );
+    if (version === undefined) throw new Error("Unknown version of instance");
+    return this.create(this.migrate(instance.toJson(), version, to), to);
+  }
+
+  private create(value: DomainObject, version: Version<S>): any {
+    return new (this.struct(version))(value);
+  }
+}
+
+function up(value: DomainObject, migration: Migration = {}): DomainObject {
+  const out = { ...value };
+  for (const [from, to] of renames(migration)) {
+    out[to] = out[from];
+    delete out[from];
+  }
+  for (const k of migration.remove ?? []) delete out[k];
+  for (const [k, v] of Object.entries(migration.add ?? {}))
+    if (out[k] === undefined) out[k] = v;
+  return migration.convert ? migration.convert(out) : out;
+}
+
+function down(value: DomainObject, migration: Migration = {}): DomainObject {
+  const out = migration.revert ? migration.revert({ ...value }) : { ...value };
+  for (const k of Object.keys(migration.add ?? {})) delete out[k];
+  for (const [from, to] of renames(migration)) {
+    out[from] = out[to];
+    delete out[to];
+  }
+  return out;
+}
+
+function renames(migration: Migration): [string, string][] {
+  return Object.entries(migration.rename ?? {}) as [string, string][];
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, StructArray, struct } from "../dist/index.js";
+
+const Frame = struct(
+  {
+    address: DataType.UINT8,
+    code: DataType.UINT8,
+    value: DataType.UINT16BE,
+    crc: DataType.UINT16LE,
+  },
+  { packed: true, checksums: { crc: { algorithm: "crc16-modbus" } } },
+);
+
+test("data() recomputes the checksums of owned instances", () => {
+  const frame = new Frame({ address: 1, code: 3, value: 2 });
+  frame.value = 4;
+  assert.equal(Frame.from(frame.data()).value, 4);
+});
+
+test("data() returns the memory of views as is", () => {
+  const payload = Buffer.from(new Frame({ address: 1 }).data());
+  const view = Frame.view(payload);
+  view.value = 4;
+  assert.throws(() => Frame.from(view.data()), /checksum mismatch/);
+  view.seal();
+  assert.equal(Frame.from(view.data()).value, 4);
+});
+
+test("StructArray.data() recomputes the checksums of its records", () => {
+  const frames = new StructArray(Frame, 2);
+  frames.get(1).value = 9;
+  const data = frames.data();
+  assert.equal(Frame.from(data.subarray(Frame.size)).value, 9);
+  frames.get(0).value = 7;
+  assert.equal(Frame.from(frames.slice(0, 1).data()).value, 7);
+});
+
+test("checksum ranges are validated when the struct is defined", () => {
+  const fields = { value: DataType.UINT32LE, crc: DataType.UINT8 };
+  const define = (checksum) => () =>
+    struct(fields, { checksums: { crc: checksum } });
+  assert.throws(define({ algorithm: "sum", to: "crc" }), /covers itself/);
+  assert.throws(define({ algorithm: "sum", from: 3, to: 1 }), /Invalid/);
+  assert.throws(define({ algorithm: "sum", to: 9 }));
+});
+
+test("checksums cover empty variable fields of dynamic structs", () => {
+  const Packet = struct(
+    { n: DataType.UINT8, body: [DataType.UINT8, "n"], sum: DataType.UINT8 },
+    { dynamic: true, checksums: { sum: { algorithm: "sum", to: "body" } } },
+  );
+  assert.deepEqual(new Packet({ n: 0, body: [], sum: 0 }).validate(), []);
+  assert.deepEqual(
+    new Packet({ n: 2, body: [1, 2], sum: 0 }).data(),
+    Buffer.from([2, 1, 2, 5]),
+  );
+});
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, cHeaderToTypeScript, parseCHeader } from "../dist/index.js";
+
+const header = `
+struct grid_t {
+  uint8_t m[2][3];
+};
+`;
+
+test("multi-dimensional arrays are nested", () => {
+  const [grid] = parseCHeader(header);
+  assert.deepEqual(grid.definition.m, [[DataType.UINT8, 3], 2]);
+  const g = new grid.struct({
+    m: [
+      [1, 2, 3],
+      [4, 5, 6],
+    ],
+  });
+  assert.deepEqual(g.m[1], [4, 5, 6]);
+  const source = cHeaderToTypeScript(header);
+  assert.match(source, /m: byte\[\]\[\];/);
+  assert.match(source, /m: \[\[DataType\.UINT8, 3\], 2\],/);
+});
@@ -0,0 +1,14 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, codecs, struct } from "../dist/index.js";
+
+const Sensor = struct(
+  { temp: DataType.INT16LE },
+  { transform: { temp: codecs.scaled(0.1, -40) } },
+);
+
+test("falsy domain values go through their codec on construction", () => {
+  assert.equal(new Sensor({ temp: 0 }).temp, 0);
+  assert.equal(Sensor.partial({ temp: 0 }).temp, 0);
+  assert.deepEqual(new Sensor({ temp: 0 }).data(), Buffer.from([0x90, 0x01]));
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, struct } from "../dist/index.js";
+
+const Header = struct(
+  { magic: [DataType.UINT8, 2], version: DataType.UINT8 },
+  { constraints: { magic: { const: [0xca, 0xfe] } } },
+);
+
+test("constants are written in arrays of structs on construction", () => {
+  const Nested = struct({ hs: [Header, 2], grid: [[Header, 2], 2] });
+  const n = new Nested({});
+  assert.deepEqual(n.hs[1].magic, [0xca, 0xfe]);
+  assert.deepEqual(n.grid[1][0].magic, [0xca, 0xfe]);
+  assert.deepEqual(n.validate(), []);
+});
+
+test("assignment errors name the full path of array items", () => {
+  const Nested = struct({ hs: [Header, 2], grid: [[DataType.UINT8, 2], 2] });
+  const n = new Nested({});
+  assert.throws(
+    () => (n.hs[1] = { magic: [0, 0], version: 1 }),
+    /^Error: hs\[1\]\.magic: /,
+  );
+  assert.throws(() => (n.grid[1][0] = 300), /^Error: grid\[1\]\[0\]: /);
+  assert.throws(
+    () =>
+      (n.grid = [
+        [1, 2],
+        [3, 300],
+      ]),
+    /^Error: grid\[1\]\[1\]: /,
+  );
+});
+
+test("bigints and numbers compare by value in constraints", () => {
+  const Versioned = struct(
+    { version: DataType.UINT64LE, kind: DataType.UINT8 },
+    { constraints: { version: { const: 2 }, kind: { values: [1n, 2] } } },
+  );
+  assert.equal(new Versioned({ kind: 1 }).version, 2n);
+  assert.throws(() => new Versioned({ kind: 3 }), /^Error: kind: /);
+  assert.throws(
+    () => new Versioned({ version: 3n, kind: 2 }),
+    /^Error: version: /,
+  );
+});
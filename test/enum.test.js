@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, enumDataType, struct } from "../dist/index.js";
+
+const Request = struct({
+  method: enumDataType(DataType.UINT8, { GET: 1, PUT: 2 }),
+});
+const unknown = Buffer.from([7]);
+
+test("toJson throws on unknown enum values by default", () => {
+  assert.throws(() => Request.toJson(unknown), /Unknown enum value 7/);
+  assert.throws(() => Request.from(unknown).toJson(), /Unknown enum value 7/);
+});
+
+test("validate reports unknown enum values instead of throwing", () => {
+  assert.deepEqual(Request.validate(unknown), [
+    { path: "method", value: 7, message: "unknown enum value 7" },
+  ]);
+});
+
+test("toJson reads unknown enum values as configured", () => {
+  const Raw = struct({
+    method: enumDataType(DataType.UINT8, { GET: 1 }, { unknown: "raw" }),
+  });
+  assert.deepEqual(Raw.toJson(unknown), { method: 7 });
+});
@@ -0,0 +1,12 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, flagsDataType } from "../dist/index.js";
+
+test("flags are only stored in unsigned types of up to 32 bits", () => {
+  assert.equal(
+    flagsDataType(DataType.UINT32BE, { a: 31 }).type,
+    DataType.UINT32BE,
+  );
+  for (const type of [DataType.UINT64LE, DataType.UINT64BE, DataType.INT8])
+    assert.throws(() => flagsDataType(type, { a: 0 }), /unsigned type/);
+});
@@ -0,0 +1,11 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, struct, toCHeader } from "../dist/index.js";
+
+test("half floats are declared as uint16_t", () => {
+  const Reading = struct({ h: DataType.FLOAT16BE });
+  assert.match(
+    toCHeader(Reading, "reading_t"),
+    /uint16_t h; \/\* half float, big-endian \*\//,
+  );
+});
@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataType, StructDecoder, struct } from "../dist/index.js";
+
+const Pair = struct({ a: DataType.UINT8, b: DataType.UINT8 });
+
+test("StructDecoder keeps partial records when sources reuse their chunks", async () => {
+  const decoder = new StructDecoder(Pair, { output: "json" });
+  const records = [];
+  decoder.on("data", (record) => records.push(record));
+  const chunk = Buffer.from([3]);
+  decoder.write(chunk);
+  chunk[0] = 4; // The source reads the next bytes into the same memory
+  decoder.end(chunk);
+  await new Promise((resolve) => decoder.on("end", resolve));
+  assert.deepEqual(records, [{ a: 3, b: 4 }]);
+});